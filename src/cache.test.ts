@@ -0,0 +1,147 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FileCacheStore, MemoryCacheStore, ResponseCache } from './cache.js';
+import { Lunaby } from './client.js';
+import { MockTransport, contentChunk } from './testing/index.js';
+import type { CacheEntry, ChatMessage, LunabyClientOptions } from './types.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Classify: great product' }];
+const scope = { baseURL: 'https://api.lunie.dev/v1', apiKey: 'key' };
+const entry = (data: unknown): CacheEntry => ({ data, headers: {}, status: 200, createdAt: 0 });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function setup(options: LunabyClientOptions = {}) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, cache: true, ...options });
+  return { transport, client };
+}
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', entry(1));
+    store.set('b', entry(2));
+    store.get('a');
+    store.set('c', entry(3));
+
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')?.data).toBe(1);
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('FileCacheStore', () => {
+  it('round-trips entries through JSON files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'lunaby-cache-'));
+    try {
+      const store = new FileCacheStore(join(dir, 'nested'));
+      await store.set('k', entry({ ok: true }));
+
+      expect((await store.get('k'))?.data).toEqual({ ok: true });
+      await store.delete('k');
+      expect(await store.get('k')).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ResponseCache', () => {
+  it('ignores stream and key order, but not base URL or API key', async () => {
+    const cache = new ResponseCache();
+    const key = await cache.key('/chat/completions', { model: 'm', stream: true, temperature: 0 }, scope);
+
+    expect(await cache.key('/chat/completions', { temperature: 0, model: 'm' }, scope)).toBe(key);
+    expect(await cache.key('/chat/completions', { temperature: 0, model: 'm' }, { ...scope, apiKey: 'other' })).not.toBe(key);
+    expect(await cache.key('/chat/completions', { temperature: 0, model: 'm' }, { ...scope, baseURL: 'https://proxy.example/v1' })).not.toBe(key);
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttl: 1000 });
+    await cache.set('k', 'data', new Headers(), 200);
+
+    expect((await cache.get('k'))?.data).toBe('data');
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get('k')).toBeUndefined();
+  });
+});
+
+describe('client cache', () => {
+  it('caches temperature 0 completions and reports the hit', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('positive');
+
+    const first = await client.chat.create(messages, { temperature: 0 });
+    const second = await client.chat.create(messages, { temperature: 0 });
+
+    expect([first.cached, second.cached]).toEqual([false, true]);
+    expect(second.data.choices[0].message.content).toBe('positive');
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('does not cache sampled calls unless asked to', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('one').queueChatCompletion('two').queueChatCompletion('three');
+
+    expect((await client.chat.create(messages)).data.choices[0].message.content).toBe('one');
+    expect((await client.chat.create(messages)).data.choices[0].message.content).toBe('two');
+    await client.chat.create(messages, { temperature: 0.7, cache: true });
+    expect((await client.chat.create(messages, { temperature: 0.7, cache: true })).cached).toBe(true);
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it('caches seeded image generations only', async () => {
+    const { transport, client } = setup();
+    transport.queueImage('YQ==').queueImage('Yg==').queueImage('Yw==');
+
+    await client.images.generate('a fox', { seed: 7 });
+    expect((await client.images.generate('a fox', { seed: 7 })).cached).toBe(true);
+    await client.images.generate('a fox');
+    expect((await client.images.generate('a fox')).cached).toBe(false);
+  });
+
+  it('bypasses the cache with cache: false', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('a').queueChatCompletion('b');
+
+    await client.chat.create(messages, { temperature: 0 });
+    const bypassed = await client.chat.create(messages, { temperature: 0, cache: false });
+
+    expect(bypassed.cached).toBe(false);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('replays a cached stream with its finish_reason, shared with regular calls', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['Trun', contentChunk('cated', 'length')]);
+
+    await (await client.chat.createStream(messages, { temperature: 0 })).toContent();
+    const replayed = await client.chat.createStream(messages, { temperature: 0 });
+    const regular = await client.chat.create(messages, { temperature: 0 });
+
+    expect(await replayed.toContent()).toBe('Truncated');
+    expect(replayed.cached).toBe(true);
+    expect(replayed.finishReason).toBe('length');
+    expect(regular.data.choices[0]).toMatchObject({ message: { content: 'Truncated' }, finish_reason: 'length' });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('keeps clients with different API keys apart on a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const { transport, client } = setup({ cache: { store } });
+    const other = new Lunaby({ apiKey: 'other-key', fetch: transport.fetch, cache: { store } });
+    transport.queueChatCompletion('mine').queueChatCompletion('theirs');
+
+    await client.chat.create(messages, { temperature: 0 });
+    const response = await other.chat.create(messages, { temperature: 0 });
+
+    expect(response.cached).toBe(false);
+    expect(response.data.choices[0].message.content).toBe('theirs');
+  });
+});
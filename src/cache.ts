@@ -0,0 +1,159 @@
+import type { CacheEntry, CacheOptions, CacheStore, RequestCacheOptions } from './types.js';
+import { loadFs, sha256Hex } from './runtime.js';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory store evicting the least recently used entry once full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly _entries = new Map<string, CacheEntry>();
+
+  constructor(readonly maxEntries: number = DEFAULT_MAX_ENTRIES) { }
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this._entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this._entries.delete(key);
+      this._entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+
+    while (this._entries.size > this.maxEntries) {
+      const oldest = this._entries.keys().next().value as string;
+      this._entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this._entries.delete(key);
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+/**
+ * Filesystem store writing one JSON file per entry, shared across processes. Node only.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(readonly directory: string) { }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { readFile } = await loadFs();
+
+    try {
+      return JSON.parse(await readFile(this._path(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, writeFile } = await loadFs();
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this._path(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await loadFs();
+    await rm(this._path(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await loadFs();
+    await rm(this.directory, { recursive: true, force: true });
+  }
+
+  private _path(key: string): string {
+    return `${this.directory.replace(/[\\/]+$/, '')}/${key}.json`;
+  }
+}
+
+/**
+ * Response cache keyed by base URL, API key and a normalized request body
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  readonly ttl?: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.ttl = options.ttl;
+  }
+
+  /**
+   * Cache key for a request. `stream` is ignored so streamed and regular calls share entries.
+   * Keys are scoped to the base URL and API key, so clients sharing a store never see each
+   * other's responses.
+   */
+  async key(
+    path: string,
+    body: unknown,
+    scope: { baseURL: string; apiKey: string }
+  ): Promise<string> {
+    const normalized = body && typeof body === 'object' ? { ...(body as Record<string, unknown>) } : body;
+    if (normalized && typeof normalized === 'object') {
+      delete (normalized as Record<string, unknown>).stream;
+    }
+
+    const apiKeyHash = await sha256Hex(scope.apiKey);
+    return sha256Hex(`${scope.baseURL}\n${apiKeyHash}\n${path}\n${JSON.stringify(sortKeys(normalized))}`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = await this.store.get(key) as CacheEntry<T> | undefined;
+
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set<T>(key: string, data: T, headers: Headers, status: number, options: RequestCacheOptions = {}): Promise<void> {
+    const ttl = options.ttl ?? this.ttl;
+    const headerRecord: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      headerRecord[name] = value;
+    });
+
+    const entry: CacheEntry<T> = {
+      data,
+      headers: headerRecord,
+      status,
+      createdAt: Date.now(),
+      ...(ttl !== undefined && { expiresAt: Date.now() + ttl }),
+    };
+
+    await this.store.set(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear?.();
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
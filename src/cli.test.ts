@@ -0,0 +1,173 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { chatCompletion, contentChunk } from './testing/index.js';
+
+// Runs the built CLI (`npm run build`) against a local HTTP server standing in for the API
+const cliPath = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+interface ServedRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown>;
+}
+
+let server: Server;
+let baseURL: string;
+let requests: ServedRequest[];
+let dir: string;
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const served: ServedRequest = {
+      method: request.method || 'GET',
+      path: request.url || '',
+      authorization: request.headers.authorization,
+      body: await readBody(request),
+    };
+    requests.push(served);
+
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (served.authorization !== 'Bearer test-key') {
+      json(401, { error: 'unauthorized', message: 'Invalid API key' });
+    } else if (served.path === '/v1/chat/completions' && served.body.stream) {
+      response.writeHead(200, { 'content-type': 'text/event-stream' });
+      response.end(['Hel', 'lo'].map(text => `data: ${JSON.stringify(contentChunk(text))}\n\n`).join('') + 'data: [DONE]\n\n');
+    } else if (served.path === '/v1/chat/completions') {
+      json(200, chatCompletion('Hello', { id: 'chatcmpl-cli' }));
+    } else if (served.path === '/v1/models') {
+      json(200, {
+        object: 'list',
+        data: [{ id: 'lunaby-pro', object: 'model', capabilities: {}, context_length: 131072 }, { id: 'lunaby', object: 'model', capabilities: {} }],
+        has_more: false,
+      });
+    } else if (served.path === '/v1/images/generations') {
+      json(200, { created: 0, data: [{ b64_json: png.toString('base64'), revised_prompt: 'a fox at dawn' }] });
+    } else {
+      json(404, { error: 'not_found' });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  requests = [];
+  dir = await mkdtemp(join(tmpdir(), 'lunaby-cli-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function run(args: string[], options: { input?: string; apiKey?: string } = {}): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  const { input = '', apiKey = 'test-key' } = options;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [cliPath, ...args], {
+      cwd: dir,
+      env: { PATH: process.env.PATH, LUNABY_API_KEY: apiKey, LUNABY_BASE_URL: baseURL },
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stdout, stderr }));
+    child.stdin.end(input);
+  });
+}
+
+describe('lunaby CLI', () => {
+  it('prints usage, and exits with 2 on wrong arguments without calling the API', async () => {
+    const help = await run([]);
+    const unknown = await run(['paint']);
+    const badRatio = await run(['image', 'a fox', '--aspect-ratio', '2:1']);
+
+    expect(help).toMatchObject({ code: 0 });
+    expect(help.stdout).toContain('Usage: lunaby <command>');
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('lunaby: unknown command "paint"');
+    expect(badRatio.code).toBe(2);
+    expect(badRatio.stderr).toContain('--aspect-ratio must be one of');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('prints API errors as one friendly line with exit code 1', async () => {
+    const missing = await run(['models'], { apiKey: '' });
+    const rejected = await run(['complete', 'hi'], { apiKey: 'bad-key' });
+
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toBe('Authentication failed: LUNABY_API_KEY is not set. Check LUNABY_API_KEY.\n');
+    expect(rejected.code).toBe(1);
+    expect(rejected.stderr).toBe('Authentication failed: Invalid API key. Check LUNABY_API_KEY.\n');
+  });
+
+  it('completes a prompt from stdin, streamed or as JSON', async () => {
+    const streamed = await run(['complete', '-s', 'Be brief.'], { input: 'Say hello\n' });
+    const json = await run(['complete', '--json', '--temperature', '0', 'Say hello']);
+
+    expect(streamed).toMatchObject({ code: 0, stdout: 'Hello\n' });
+    expect(requests[0].body).toMatchObject({
+      stream: true,
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Say hello' }],
+    });
+    expect(JSON.parse(json.stdout)).toMatchObject({ id: 'chatcmpl-cli', choices: [{ message: { content: 'Hello' } }] });
+    expect(requests[1].body).toMatchObject({ temperature: 0 });
+  });
+
+  it('saves a generated image', async () => {
+    const result = await run(['image', 'a fox', '--seed', '7', '-a', '16:9', '-o', 'fox.png']);
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toBe('Saved fox.png\nRevised prompt: a fox at dawn\n');
+    expect(await readFile(join(dir, 'fox.png'))).toEqual(png);
+    expect(requests[0].body).toMatchObject({ prompt: 'a fox', seed: 7, aspect_ratio: '16:9', output_format: 'png' });
+  });
+
+  it('lists models', async () => {
+    const result = await run(['models']);
+
+    expect(result.stdout).toBe('ID          CONTEXT\nlunaby-pro  131072\nlunaby      -\n');
+  });
+
+  it('chats with slash commands and saves the history', async () => {
+    const result = await run(['chat'], { input: '/system Be brief.\n/model lunaby-pro\nHi\n/save history.json\n/exit\n' });
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('System prompt set.');
+    expect(result.stdout).toContain('Model: lunaby-pro');
+    expect(result.stdout).toContain('Hello\n');
+    expect(requests[0].body).toMatchObject({ model: 'lunaby-pro', messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }] });
+    expect(JSON.parse(await readFile(join(dir, 'history.json'), 'utf8'))).toEqual({
+      model: 'lunaby-pro',
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }],
+    });
+  });
+});
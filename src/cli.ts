@@ -0,0 +1,473 @@
+#!/usr/bin/env node
+/**
+ * `lunaby` command-line tool. Node.js only; reads LUNABY_API_KEY and
+ * LUNABY_BASE_URL like the client does.
+ */
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import { createInterface } from 'node:readline';
+import { readFile, writeFile } from 'node:fs/promises';
+import { Lunaby } from './client.js';
+import { Conversation } from './conversation.js';
+import type { ChatStream } from './streaming.js';
+import {
+  AbortError,
+  AuthenticationError,
+  CircuitOpenError,
+  ConnectionError,
+  ContentFilterError,
+  LunabyError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from './errors.js';
+import type { AspectRatio, ChatMessage, Model, OutputFormat } from './types.js';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4', '21:9'];
+const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg', 'webp'];
+
+const USAGE = `Usage: lunaby <command> [options]
+
+Commands:
+  chat                Interactive chat with streaming replies
+  complete [prompt]   Complete a prompt read from the arguments or stdin
+  image <prompt>      Generate an image and save it to a file
+  models              List available models
+
+Run "lunaby <command> --help" for the options of a command.
+
+Environment:
+  LUNABY_API_KEY      API key (required)
+  LUNABY_BASE_URL     API base URL (optional)
+`;
+
+const CHAT_USAGE = `Usage: lunaby chat [options]
+
+Options:
+  -m, --model <id>      Model to use
+  -s, --system <text>   System prompt
+      --history <file>  Load a saved history before starting
+
+In the chat:
+  /system [text]   Set or clear the system prompt
+  /model [id]      Switch model, or show the current one
+  /save <file>     Save the history as JSON
+  /load <file>     Load a saved history
+  /clear           Forget the history
+  /exit            Quit (or Ctrl+D); Ctrl+C stops a reply
+`;
+
+const COMPLETE_USAGE = `Usage: lunaby complete [prompt] [options]
+
+Reads the prompt from stdin when no prompt argument is given.
+
+Options:
+  -m, --model <id>        Model to use
+  -s, --system <text>     System prompt
+      --max-tokens <n>    Maximum tokens to generate
+  -t, --temperature <n>   Sampling temperature
+      --json              Print the full response as JSON
+`;
+
+const IMAGE_USAGE = `Usage: lunaby image <prompt> [options]
+
+Options:
+  -a, --aspect-ratio <ratio>  ${ASPECT_RATIOS.join(', ')}
+      --seed <n>              Seed for reproducible output
+  -o, --output <path>         File to write (default image-<timestamp>.<format>)
+  -f, --format <format>       ${OUTPUT_FORMATS.join(', ')} (default png)
+  -m, --model <id>            Model to use
+      --negative <text>       What the image should not contain
+`;
+
+const MODELS_USAGE = `Usage: lunaby models [options]
+
+Options:
+      --json   Print the models as JSON
+`;
+
+/**
+ * Wrong arguments; exits with status 2 and no API call is made
+ */
+class UsageError extends Error {
+  constructor(message: string, readonly usage?: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface SavedHistory {
+  model?: Model;
+  system?: string;
+  messages: ChatMessage[];
+}
+
+type Command = (args: string[]) => Promise<void>;
+
+const COMMANDS: Record<string, Command> = {
+  chat,
+  complete,
+  image,
+  models,
+};
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help' || command === 'help') {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    throw new UsageError(`unknown command "${command}"`, USAGE);
+  }
+
+  await run(args);
+}
+
+async function chat(args: string[]): Promise<void> {
+  const { values } = parse(args, CHAT_USAGE, {
+    model: { type: 'string', short: 'm' },
+    system: { type: 'string', short: 's' },
+    history: { type: 'string' },
+  });
+
+  const client = createClient();
+  const conversation = new Conversation(client, { system: values.system as string | undefined });
+  let model = (values.model as Model | undefined) || client.defaultModel;
+
+  if (values.history) {
+    model = await loadHistory(conversation, values.history as string) || model;
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+  let turn: AbortController | undefined;
+
+  // Ctrl+C stops the current turn, including while it is still connecting; at the prompt it quits
+  rl.on('SIGINT', () => {
+    if (turn) {
+      turn.abort();
+    } else {
+      rl.close();
+    }
+  });
+
+  process.stdout.write(`Chatting with ${model}. Type /help for commands.\n`);
+  rl.prompt();
+
+  for await (const input of rl) {
+    const line = input.trim();
+
+    try {
+      if (line.startsWith('/')) {
+        const [name] = line.slice(1).split(/\s+/);
+        const argument = line.slice(name.length + 1).trim();
+
+        switch (name) {
+          case 'exit':
+          case 'quit':
+            rl.close();
+            return;
+          case 'help':
+            process.stdout.write(CHAT_USAGE);
+            break;
+          case 'system':
+            conversation.system = argument || undefined;
+            process.stdout.write(argument ? 'System prompt set.\n' : 'System prompt cleared.\n');
+            break;
+          case 'model':
+            if (argument) {
+              model = argument;
+            }
+            process.stdout.write(`Model: ${model}\n`);
+            break;
+          case 'save':
+            if (!argument) throw new UsageError('/save needs a file name');
+            await saveHistory(conversation, argument, model);
+            process.stdout.write(`Saved ${conversation.history.length} messages to ${argument}.\n`);
+            break;
+          case 'load':
+            if (!argument) throw new UsageError('/load needs a file name');
+            model = await loadHistory(conversation, argument) || model;
+            process.stdout.write(`Loaded ${conversation.history.length} messages from ${argument}.\n`);
+            break;
+          case 'clear':
+            conversation.clear();
+            process.stdout.write('History cleared.\n');
+            break;
+          default:
+            throw new UsageError(`unknown chat command "/${name}"; type /help`);
+        }
+      } else if (line) {
+        const before = conversation.history;
+        let current: ChatStream | undefined;
+        turn = new AbortController();
+
+        try {
+          current = await conversation.createStream(line, { model, signal: turn.signal });
+          await current.process({ onContent: content => process.stdout.write(content) });
+          process.stdout.write('\n');
+        } catch (error) {
+          if (error instanceof AbortError && current) {
+            // Keep what was said so far, so the next turn has the context
+            conversation.add({ role: 'assistant', content: current.fullContent });
+            process.stdout.write('\n[stopped]\n');
+          } else if (error instanceof AbortError) {
+            // Stopped before the reply started: drop the unanswered message
+            conversation.clear().add(before);
+            process.stdout.write('[stopped]\n');
+          } else {
+            conversation.clear().add(before);
+            throw error;
+          }
+        } finally {
+          turn = undefined;
+        }
+      }
+    } catch (error) {
+      process.stderr.write(`${formatError(error)}\n`);
+    }
+
+    rl.prompt();
+  }
+}
+
+async function complete(args: string[]): Promise<void> {
+  const { values, positionals } = parse(args, COMPLETE_USAGE, {
+    model: { type: 'string', short: 'm' },
+    system: { type: 'string', short: 's' },
+    'max-tokens': { type: 'string' },
+    temperature: { type: 'string', short: 't' },
+    json: { type: 'boolean' },
+  });
+
+  let prompt = positionals.join(' ');
+  if (!prompt) {
+    if (process.stdin.isTTY) {
+      throw new UsageError('no prompt given; pass it as an argument or pipe it to stdin', COMPLETE_USAGE);
+    }
+    prompt = (await readStdin()).trim();
+  }
+  if (!prompt.trim()) {
+    throw new UsageError('the prompt is empty', COMPLETE_USAGE);
+  }
+
+  const client = createClient();
+  const messages: ChatMessage[] = [
+    ...(values.system ? [{ role: 'system', content: values.system as string } as ChatMessage] : []),
+    { role: 'user', content: prompt },
+  ];
+  const maxTokens = parseNumber(values['max-tokens'], '--max-tokens', COMPLETE_USAGE);
+  const temperature = parseNumber(values.temperature, '--temperature', COMPLETE_USAGE);
+  const options = {
+    ...(values.model && { model: values.model as Model }),
+    ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+    ...(temperature !== undefined && { temperature }),
+  };
+
+  if (values.json) {
+    const response = await client.chat.create(messages, options);
+    process.stdout.write(`${JSON.stringify(response.data, null, 2)}\n`);
+    return;
+  }
+
+  const stream = await client.chat.createStream(messages, options);
+  await stream.process({ onContent: content => process.stdout.write(content) });
+  process.stdout.write('\n');
+}
+
+async function image(args: string[]): Promise<void> {
+  const { values, positionals } = parse(args, IMAGE_USAGE, {
+    'aspect-ratio': { type: 'string', short: 'a' },
+    seed: { type: 'string' },
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    model: { type: 'string', short: 'm' },
+    negative: { type: 'string' },
+  });
+
+  const prompt = positionals.join(' ');
+  if (!prompt.trim()) {
+    throw new UsageError('image needs a prompt', IMAGE_USAGE);
+  }
+
+  const aspectRatio = values['aspect-ratio'] as AspectRatio | undefined;
+  if (aspectRatio && !ASPECT_RATIOS.includes(aspectRatio)) {
+    throw new UsageError(`--aspect-ratio must be one of ${ASPECT_RATIOS.join(', ')}`, IMAGE_USAGE);
+  }
+
+  const format = (values.format || 'png') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`, IMAGE_USAGE);
+  }
+
+  const seed = parseNumber(values.seed, '--seed', IMAGE_USAGE);
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new UsageError('--seed must be an integer', IMAGE_USAGE);
+  }
+
+  const client = createClient();
+  const result = await client.images.generateBytes(prompt, {
+    ...(values.model && { model: values.model as Model }),
+    ...(aspectRatio && { aspect_ratio: aspectRatio }),
+    ...(seed !== undefined && { seed }),
+    ...(values.negative && { negative_prompt: values.negative as string }),
+    output_format: format,
+  });
+
+  const output = (values.output as string | undefined) || `image-${Date.now()}.${format === 'jpeg' ? 'jpg' : format}`;
+  await writeFile(output, result.bytes);
+
+  process.stdout.write(`Saved ${output}\n`);
+  if (result.revisedPrompt) {
+    process.stdout.write(`Revised prompt: ${result.revisedPrompt}\n`);
+  }
+}
+
+async function models(args: string[]): Promise<void> {
+  const { values } = parse(args, MODELS_USAGE, {
+    json: { type: 'boolean' },
+  });
+
+  const client = createClient();
+  const list = [];
+  for await (const model of await client.models.list()) {
+    list.push(model);
+  }
+
+  if (values.json) {
+    process.stdout.write(`${JSON.stringify(list, null, 2)}\n`);
+    return;
+  }
+
+  const width = Math.max(2, ...list.map(model => model.id.length));
+  process.stdout.write(`${'ID'.padEnd(width)}  CONTEXT\n`);
+  for (const model of list) {
+    process.stdout.write(`${model.id.padEnd(width)}  ${model.context_length ?? '-'}\n`);
+  }
+}
+
+function createClient(): Lunaby {
+  const client = new Lunaby();
+  if (!client.isConfigured()) {
+    throw new AuthenticationError('LUNABY_API_KEY is not set');
+  }
+  return client;
+}
+
+function parse(
+  args: string[],
+  usage: string,
+  options: NonNullable<ParseArgsConfig['options']>
+): { values: Record<string, string | boolean | undefined>; positionals: string[] } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: { ...options, help: { type: 'boolean', short: 'h' } },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message, usage);
+  }
+
+  if (parsed.values.help) {
+    process.stdout.write(usage);
+    process.exit(0);
+  }
+
+  return parsed as { values: Record<string, string | boolean | undefined>; positionals: string[] };
+}
+
+function parseNumber(value: string | boolean | undefined, flag: string, usage: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`${flag} must be a number`, usage);
+  }
+  return number;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function saveHistory(conversation: Conversation, path: string, model: Model): Promise<void> {
+  const saved: SavedHistory = { model, system: conversation.system, messages: conversation.history };
+  await writeFile(path, `${JSON.stringify(saved, null, 2)}\n`);
+}
+
+/**
+ * Replace the conversation with a saved history; returns the model it was saved with
+ */
+async function loadHistory(conversation: Conversation, path: string): Promise<Model | undefined> {
+  let saved: SavedHistory;
+  try {
+    saved = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`cannot read history from ${path}: ${(error as Error).message}`);
+  }
+
+  if (!saved || !Array.isArray(saved.messages)) {
+    throw new UsageError(`${path} is not a saved chat history`);
+  }
+
+  conversation.clear().add(saved.messages);
+  conversation.system = saved.system ?? conversation.system;
+  return saved.model;
+}
+
+/**
+ * One-line explanation of an error for the terminal
+ */
+function formatError(error: unknown): string {
+  if (error instanceof UsageError) {
+    return `lunaby: ${error.message}`;
+  }
+  if (error instanceof AuthenticationError) {
+    return `Authentication failed: ${error.message}. Check LUNABY_API_KEY.`;
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfter !== undefined ? ` Try again in ${error.retryAfter}s.` : ' Try again later.';
+    return `Rate limited: ${error.message}.${wait}`;
+  }
+  if (error instanceof TimeoutError) {
+    return `Timed out: ${error.message}.`;
+  }
+  if (error instanceof ConnectionError) {
+    return `Connection failed: ${error.message}. Check your network or LUNABY_BASE_URL.`;
+  }
+  if (error instanceof CircuitOpenError) {
+    return 'The API is failing repeatedly; wait a moment and try again.';
+  }
+  if (error instanceof ContentFilterError) {
+    const categories = Object.keys(error.categories || {}).filter(category => error.categories?.[category]);
+    return `Blocked by the content filter${categories.length ? ` (${categories.join(', ')})` : ''}.`;
+  }
+  if (error instanceof ValidationError) {
+    return `Invalid input: ${error.message}`;
+  }
+  if (error instanceof AbortError) {
+    return 'Cancelled.';
+  }
+  if (error instanceof LunabyError) {
+    return `Error: ${error.message}`;
+  }
+  return `Unexpected error: ${error instanceof Error ? error.stack || error.message : String(error)}`;
+}
+
+main(process.argv.slice(2)).catch(error => {
+  process.stderr.write(`${formatError(error)}\n`);
+  if (error instanceof UsageError && error.usage) {
+    process.stderr.write(`\n${error.usage}`);
+  }
+  process.exitCode = error instanceof UsageError ? 2 : 1;
+});
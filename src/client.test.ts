@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from './client.js';
+import { APIError, AbortError, ContentFilterError, TimeoutError } from './errors.js';
+import { MockTransport, chatCompletion, contentChunk } from './testing/index.js';
+import type { ChatMessage, LunabyClientOptions, MiddlewareRequest } from './types.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hi' }];
+
+function setup(options: LunabyClientOptions = {}) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, ...options });
+  return { transport, client };
+}
+
+describe('middleware', () => {
+  it('changes the outgoing request and replaces the response', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('original');
+
+    client.use({
+      onRequest: request => ({
+        ...request,
+        url: request.url.replace('/chat/completions', '/chat/completions?tenant=acme'),
+        headers: { ...request.headers, 'x-tenant': 'acme' },
+        body: (request.body as string).replace('hi', '[redacted]'),
+      }),
+      onResponse: async response => {
+        const data = await response.json();
+        data.choices[0].message.content = 'replaced';
+        return new Response(JSON.stringify(data), { status: response.status, headers: response.headers });
+      },
+    });
+
+    const response = await client.chat.create(messages);
+
+    expect(response.data.choices[0].message.content).toBe('replaced');
+    expect(transport.lastRequest?.url).toMatch(/\?tenant=acme$/);
+    expect(transport.lastRequest?.headers['x-tenant']).toBe('acme');
+    expect(transport.lastRequest?.body).toMatchObject({ messages: [{ role: 'user', content: '[redacted]' }] });
+  });
+
+  it('runs request hooks in order and response hooks in reverse', async () => {
+    const calls: string[] = [];
+    const { transport, client } = setup({
+      middleware: [{
+        name: 'outer',
+        onRequest: () => { calls.push('outer request'); },
+        onResponse: () => { calls.push('outer response'); },
+      }],
+    });
+    client.use({
+      name: 'inner',
+      onRequest: () => { calls.push('inner request'); },
+      onResponse: () => { calls.push('inner response'); },
+    });
+    transport.queueChatCompletion('ok');
+
+    await client.chat.create(messages);
+
+    expect(calls).toEqual(['outer request', 'inner request', 'inner response', 'outer response']);
+  });
+
+  it('sees every retry attempt and network failure', async () => {
+    const attempts: number[] = [];
+    const errors: string[] = [];
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 2, initialDelay: 1, jitter: 0 } });
+    client.use({
+      onRequest: (request: MiddlewareRequest) => { attempts.push(request.attempt); },
+      onError: error => { errors.push(error.message); },
+    });
+    transport.queueNetworkError('fetch failed');
+    transport.queueError(503, { error: 'unavailable' });
+    transport.queueChatCompletion('ok');
+
+    await client.chat.create(messages);
+
+    expect(attempts).toEqual([0, 1, 2]);
+    expect(errors).toEqual(['fetch failed']);
+  });
+});
+
+describe('content filter', () => {
+  it('maps 4xx responses with categories to ContentFilterError', async () => {
+    const { transport, client } = setup();
+    transport.queueError(400, { error: 'content_policy', message: 'Prompt was rejected', details: { categories: { violence: true } } });
+    transport.queueError(400, { error: 'bad_request', message: 'Missing model' });
+
+    const filtered = await client.chat.create(messages).catch(e => e);
+    const other = await client.chat.create(messages).catch(e => e);
+
+    expect(filtered).toBeInstanceOf(ContentFilterError);
+    expect(filtered.message).toBe('Prompt was rejected');
+    expect(filtered.categories).toEqual({ violence: true });
+    expect(filtered.status).toBe(400);
+    expect(other).not.toBeInstanceOf(ContentFilterError);
+    expect(other).toBeInstanceOf(APIError);
+  });
+
+  it('returns content_filter completions unless throwOnContentFilter is set', async () => {
+    const { transport, client } = setup();
+    const filtered = chatCompletion('partial', { choices: [{ index: 0, message: { role: 'assistant', content: 'partial' }, finish_reason: 'content_filter' }] });
+    transport.queueJSON(filtered).queueJSON(filtered);
+
+    const response = await client.chat.create(messages);
+    const error = await client.chat.create(messages, { throwOnContentFilter: true }).catch(e => e);
+
+    expect(response.data.choices[0].finish_reason).toBe('content_filter');
+    expect(error).toBeInstanceOf(ContentFilterError);
+  });
+
+  it('throws from streams when the client sets throwOnContentFilter', async () => {
+    const { transport, client } = setup({ throwOnContentFilter: true });
+    transport.queueStream(['Once upon', contentChunk('', 'content_filter')]);
+
+    const stream = await client.chat.createStream(messages);
+    const error = await stream.toContent().catch(e => e);
+
+    expect(error).toBeInstanceOf(ContentFilterError);
+    expect(stream.fullContent).toBe('Once upon');
+  });
+});
+
+describe('timeouts and signals', () => {
+  it('times out waiting for headers, even when the caller passes a signal', async () => {
+    const { transport, client } = setup({ maxRetries: 0 });
+    transport.queueChatCompletion('late', { delay: 1000 });
+
+    const error = await client.chat.create(messages, { connectTimeout: 20, signal: new AbortController().signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ phase: 'connect', timeout: 20 });
+  });
+
+  it('times out a stream that stalls between chunks', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['a', 'b'], { chunkDelay: 1000 });
+
+    const stream = await client.chat.createStream(messages, { idleTimeout: 30 });
+    const error = await stream.toContent().catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ phase: 'idle', timeout: 30 });
+  });
+
+  it('bounds retries and backoff with the total timeout', async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 3, initialDelay: 1000, jitter: 0 } });
+    transport.queueError(500, { error: 'unavailable' });
+
+    const started = Date.now();
+    const error = await client.chat.create(messages, { totalTimeout: 50 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.phase).toBe('total');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('interrupts the backoff sleep when the caller aborts', async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 3, initialDelay: 1000, jitter: 0 } });
+    transport.queueError(503, { error: 'unavailable' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const started = Date.now();
+    const error = await client.chat.create(messages, { signal: controller.signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
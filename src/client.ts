@@ -1,11 +1,21 @@
 import type {
   LunabyClientOptions,
   Model,
+  PreflightMode,
   RequestOptions,
   FetchFunction,
+  Middleware,
+  MiddlewareRequest,
+  RequestBody,
+  RetryPolicy,
+  TimeoutPhase,
 } from './types.js';
 import { ChatCompletions } from './resources/chat.js';
 import { Images } from './resources/images.js';
+import { Models } from './resources/models.js';
+import { Embeddings } from './resources/embeddings.js';
+import { Moderations } from './resources/moderations.js';
+import { Batches } from './resources/batches.js';
 import { ChatResponse } from './streaming.js';
 import {
   APIError,
@@ -14,93 +24,237 @@ import {
   TimeoutError,
   ConnectionError,
   AbortError,
+  CircuitOpenError,
+  ContentFilterError,
+  ValidationError,
 } from './errors.js';
+import {
+  CircuitBreaker,
+  calculateRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  type ResolvedRetryPolicy,
+} from './retry.js';
+import { RequestScheduler, type SchedulerLease } from './scheduler.js';
+import { ResponseCache } from './cache.js';
+import { sleep } from './concurrency.js';
+import { isBrowser, readEnv } from './runtime.js';
 
 const DEFAULT_BASE_URL = 'https://api.lunie.dev/v1';
 const DEFAULT_TIMEOUT = 120000; // 2 minutes
 const DEFAULT_MAX_RETRIES = 2;
 const DEFAULT_MODEL: Model = 'lunaby-pro';
 
-// Retry configuration
-const INITIAL_RETRY_DELAY = 500;
-const MAX_RETRY_DELAY = 8000;
-const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
-
 interface InternalRequestConfig extends RequestOptions {
   method?: string;
-  body?: string;
+  body?: RequestBody;
+}
+
+interface RequestTimeouts {
+  connect: number;
+  idle?: number;
+  total?: number;
 }
 
 interface RequestContext {
   url: string;
   config: InternalRequestConfig;
   headers: Record<string, string>;
+  /** Aborted by the caller's signal, ChatStream.abort() or a timeout */
   signal: AbortSignal;
-  abortController?: AbortController;
-  timeoutId?: ReturnType<typeof setTimeout>;
+  abortController: AbortController;
+  timeouts: RequestTimeouts;
+  connectTimer?: ReturnType<typeof setTimeout>;
+  totalTimer?: ReturnType<typeof setTimeout>;
+  /** Set when a timer aborted the request */
+  timedOut?: TimeoutPhase;
+  detachSignal?: () => void;
+  lease?: SchedulerLease;
 }
 
 export class Lunaby {
   readonly apiKey: string;
   readonly baseURL: string;
   readonly timeout: number;
+  readonly connectTimeout?: number;
+  readonly idleTimeout: number;
+  readonly totalTimeout?: number;
   readonly maxRetries: number;
   readonly defaultModel: Model;
   readonly defaultHeaders: Record<string, string>;
+  readonly circuitBreaker?: CircuitBreaker;
+  readonly scheduler?: RequestScheduler;
+  readonly preflight: PreflightMode;
+  readonly throwOnContentFilter: boolean;
+  readonly cache?: ResponseCache;
+  readonly onWarning: (message: string) => void;
 
   private readonly _fetch: FetchFunction;
+  private readonly _middleware: Middleware[];
+  private readonly _retryPolicy?: RetryPolicy;
 
   readonly chat: ChatCompletions;
   readonly images: Images;
+  readonly models: Models;
+  readonly embeddings: Embeddings;
+  readonly moderations: Moderations;
+  readonly batches: Batches;
 
   constructor(options: LunabyClientOptions = {}) {
-    this.apiKey = options.apiKey || process.env.LUNABY_API_KEY || '';
-    this.baseURL = (options.baseURL || process.env.LUNABY_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    if (isBrowser() && !options.dangerouslyAllowBrowser) {
+      throw new ValidationError(
+        'Creating a Lunaby client in the browser exposes your API key to every visitor. ' +
+        'Call the API from your server, or set dangerouslyAllowBrowser: true if the key is meant to be public ' +
+        '(e.g. a short-lived or restricted key).',
+        'dangerouslyAllowBrowser'
+      );
+    }
+
+    this.apiKey = options.apiKey || readEnv('LUNABY_API_KEY') || '';
+    this.baseURL = (options.baseURL || readEnv('LUNABY_BASE_URL') || DEFAULT_BASE_URL).replace(/\/$/, '');
     this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.connectTimeout = options.connectTimeout;
+    this.idleTimeout = options.idleTimeout ?? this.timeout;
+    this.totalTimeout = options.totalTimeout;
+    this.maxRetries = options.retryPolicy?.maxRetries ?? options.maxRetries ?? DEFAULT_MAX_RETRIES;
     this.defaultModel = options.defaultModel || DEFAULT_MODEL;
     this.defaultHeaders = options.defaultHeaders || {};
+    this.preflight = options.preflight || 'off';
+    this.throwOnContentFilter = options.throwOnContentFilter ?? false;
+    this.onWarning = options.onWarning || (message => console.warn(message));
     this._fetch = options.fetch || globalThis.fetch;
+    this._middleware = [...(options.middleware || [])];
+
+    // Build the breaker once so its state is shared by every request
+    const circuitBreaker = options.retryPolicy?.circuitBreaker;
+    if (circuitBreaker) {
+      this.circuitBreaker = circuitBreaker instanceof CircuitBreaker
+        ? circuitBreaker
+        : new CircuitBreaker(circuitBreaker);
+    }
+    this._retryPolicy = options.retryPolicy && { ...options.retryPolicy, circuitBreaker: this.circuitBreaker };
+
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache === true ? {} : options.cache);
+    }
+
+    if (options.scheduler) {
+      this.scheduler = options.scheduler instanceof RequestScheduler
+        ? options.scheduler
+        : new RequestScheduler(options.scheduler);
+    }
 
     // Initialize resources
     this.chat = new ChatCompletions(this);
     this.images = new Images(this);
+    this.models = new Models(this);
+    this.embeddings = new Embeddings(this);
+    this.moderations = new Moderations(this);
+    this.batches = new Batches(this);
+  }
+
+  /**
+   * Register a middleware that runs on every request after those already registered
+   */
+  use(middleware: Middleware): this {
+    this._middleware.push(middleware);
+    return this;
   }
 
   /**
-   * Prepare common request context (headers, timeout, signal)
+   * The client's retry policy with later overrides taking precedence, for callers that retry on their own
+   * @internal
+   */
+  resolveRetryPolicy(...overrides: Array<RetryPolicy | undefined>): ResolvedRetryPolicy {
+    return resolveRetryPolicy(this.maxRetries, this._retryPolicy, ...overrides);
+  }
+
+  /**
+   * Prepare common request context (headers, timeouts, signal)
    */
   private _prepareRequest(path: string, config: InternalRequestConfig): RequestContext {
     const url = `${this.baseURL}${path}`;
-    const { signal, timeout, headers: customHeaders } = config;
+    const { signal, headers: customHeaders } = config;
 
+    // fetch sets the multipart Content-Type with its boundary for FormData bodies
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(typeof config.body !== 'object' && { 'Content-Type': 'application/json' }),
       'Authorization': `Bearer ${this.apiKey}`,
       ...this.defaultHeaders,
       ...customHeaders,
     };
 
-    let abortController: AbortController | undefined;
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
-
-    if (!signal) {
-      abortController = new AbortController();
-      timeoutId = setTimeout(() => {
-        abortController?.abort();
-      }, timeout || this.timeout);
+    // One controller for every abort source, so the caller's signal does not replace the timeouts
+    const abortController = new AbortController();
+    let detachSignal: (() => void) | undefined;
+    if (signal?.aborted) {
+      abortController.abort();
+    } else if (signal) {
+      const onAbort = () => abortController.abort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      detachSignal = () => signal.removeEventListener('abort', onAbort);
     }
 
     return {
       url,
       config,
       headers,
-      signal: signal || abortController!.signal,
+      signal: abortController.signal,
       abortController,
-      timeoutId,
+      timeouts: {
+        connect: config.connectTimeout ?? config.timeout ?? this.connectTimeout ?? this.timeout,
+        idle: config.idleTimeout ?? config.timeout ?? this.idleTimeout,
+        total: config.totalTimeout ?? this.totalTimeout,
+      },
+      detachSignal,
     };
   }
 
+  /**
+   * Start the connect timer for an attempt, and the total timer with the first one.
+   * Timers start with the attempt, so time spent queued does not count.
+   */
+  private _startTimers(ctx: RequestContext): void {
+    const { timeouts } = ctx;
+
+    clearTimeout(ctx.connectTimer);
+    ctx.connectTimer = setTimeout(() => this._abortOnTimeout(ctx, 'connect'), timeouts.connect);
+
+    if (timeouts.total !== undefined && !ctx.totalTimer) {
+      ctx.totalTimer = setTimeout(() => this._abortOnTimeout(ctx, 'total'), timeouts.total);
+    }
+  }
+
+  private _abortOnTimeout(ctx: RequestContext, phase: TimeoutPhase): void {
+    ctx.timedOut ??= phase;
+    ctx.abortController.abort();
+  }
+
+  /**
+   * Clear the timers and stop listening to the caller's signal once the request is over
+   */
+  private _finishRequest(ctx: RequestContext): void {
+    clearTimeout(ctx.connectTimer);
+    clearTimeout(ctx.totalTimer);
+    ctx.detachSignal?.();
+    ctx.detachSignal = undefined;
+  }
+
+  /**
+   * Wait for a scheduler slot when a scheduler is configured
+   */
+  private async _acquireSlot(ctx: RequestContext, tokens: number): Promise<SchedulerLease | undefined> {
+    if (!this.scheduler) {
+      return undefined;
+    }
+
+    try {
+      return await this.scheduler.acquire({ priority: ctx.config.priority, tokens, signal: ctx.signal });
+    } catch {
+      throw this._createAbortError(ctx);
+    }
+  }
+
   /**
    * Execute fetch with retry logic
    */
@@ -108,78 +262,140 @@ export class Lunaby {
     ctx: RequestContext,
     isStream: boolean = false
   ): Promise<Response> {
-    const { url, config, headers, signal, timeoutId } = ctx;
+    const { url, config, headers, signal } = ctx;
     const { method = 'GET', body } = config;
+    const policy = this.resolveRetryPolicy(config.retryPolicy);
+    const breaker = policy.circuitBreaker;
+    const tokens = this.scheduler ? this.scheduler.estimateTokens(typeof body === 'string' ? body : undefined) : 0;
 
     let lastError: Error | undefined;
-    let attempt = 0;
+    let previousDelay = policy.initialDelay;
+
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      const trial = breaker?.state === 'half-open';
+      if (breaker && !breaker.canRequest()) {
+        throw new CircuitOpenError(breaker.retryAt);
+      }
 
-    while (attempt <= this.maxRetries) {
       try {
-        const response = await this._fetch(url, {
-          method,
-          headers,
-          body,
-          signal,
-        });
-
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-        }
+        const lease = await this._acquireSlot(ctx, tokens);
+        this._startTimers(ctx);
+
+        let request: MiddlewareRequest = { url, method, headers: { ...headers }, body, attempt };
+        let response: Response;
+
+        try {
+          request = await this._applyRequestMiddleware(request);
 
-        // Don't retry on success or non-retryable errors
-        if (response.ok || !this._isRetryableStatus(response.status)) {
-          if (!response.ok) {
-            await this._handleErrorResponse(response);
+          response = await this._fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            signal,
+          });
+
+          clearTimeout(ctx.connectTimer);
+
+          response = await this._applyResponseMiddleware(response, request);
+        } catch (error) {
+          lease?.release();
+          clearTimeout(ctx.connectTimer);
+
+          // Handle abort/timeout
+          if (error instanceof Error) {
+            await this._applyErrorMiddleware(error, request);
+
+            if (error.name === 'AbortError' || ctx.signal.aborted) {
+              throw this._createAbortError(ctx);
+            }
+
+            if (this._isNetworkError(error)) {
+              breaker?.recordFailure();
+
+              // Network errors are retryable
+              if (!isStream && attempt < policy.maxRetries && this._shouldRetry(policy, error, attempt, true)) {
+                lastError = error;
+                previousDelay = calculateRetryDelay(policy, attempt, previousDelay);
+                await this._sleep(previousDelay, ctx);
+                continue;
+              }
+            }
+
+            if (error.message.includes('fetch')) {
+              throw new ConnectionError('Failed to connect to the API server');
+            }
           }
-          return response;
+
+          throw error;
         }
 
-        // Retryable error
-        lastError = await this._createErrorFromResponse(response);
+        this.scheduler?.observe(response);
 
-        if (attempt < this.maxRetries) {
-          const delay = this._calculateRetryDelay(attempt, response);
-          await this._sleep(delay);
-        }
-      } catch (error) {
-        if (timeoutId) {
-          clearTimeout(timeoutId);
+        if (response.ok) {
+          breaker?.recordSuccess();
+          ctx.lease = lease;
+          return response;
         }
 
-        // Handle abort/timeout
-        if (error instanceof Error) {
-          if (error.name === 'AbortError') {
-            if (!config.signal) {
-              throw new TimeoutError(`Request timed out after ${config.timeout || this.timeout}ms`);
-            }
-            throw new AbortError('Request was aborted');
-          }
+        lease?.release();
 
-          // Network errors are retryable
-          if (this._isNetworkError(error) && attempt < this.maxRetries && !isStream) {
-            lastError = error;
-            const delay = this._calculateRetryDelay(attempt);
-            await this._sleep(delay);
-            attempt++;
-            continue;
-          }
+        if (response.status >= 500) {
+          breaker?.recordFailure();
+        } else {
+          breaker?.recordSuccess();
+        }
 
-          if (error.message.includes('fetch')) {
-            throw new ConnectionError('Failed to connect to the API server');
-          }
+        const error = await this._createErrorFromResponse(response);
+        const retryable = policy.retryableStatusCodes.includes(response.status);
+
+        if (attempt < policy.maxRetries && this._shouldRetry(policy, error, attempt, retryable)) {
+          lastError = error;
+          previousDelay = calculateRetryDelay(policy, attempt, previousDelay, response);
+          await this._sleep(previousDelay, ctx);
+          continue;
         }
 
         throw error;
+      } finally {
+        // An aborted trial, or one failed by middleware, records no outcome and would block the breaker
+        if (trial) {
+          breaker!.releaseTrial();
+        }
       }
-
-      attempt++;
     }
 
     // Exhausted retries
     throw lastError || new ConnectionError('Request failed after retries');
   }
 
+  private async _applyRequestMiddleware(request: MiddlewareRequest): Promise<MiddlewareRequest> {
+    for (const middleware of this._middleware) {
+      if (middleware.onRequest) {
+        request = (await middleware.onRequest(request)) || request;
+      }
+    }
+    return request;
+  }
+
+  /**
+   * Response hooks run in reverse registration order, so the first middleware sees the final response
+   */
+  private async _applyResponseMiddleware(response: Response, request: MiddlewareRequest): Promise<Response> {
+    for (let i = this._middleware.length - 1; i >= 0; i--) {
+      const middleware = this._middleware[i];
+      if (middleware.onResponse) {
+        response = (await middleware.onResponse(response, request)) || response;
+      }
+    }
+    return response;
+  }
+
+  private async _applyErrorMiddleware(error: Error, request: MiddlewareRequest): Promise<void> {
+    for (const middleware of this._middleware) {
+      await middleware.onError?.(error, request);
+    }
+  }
+
   /**
    * Make a JSON request with automatic parsing
    */
@@ -187,20 +403,134 @@ export class Lunaby {
     path: string,
     config: InternalRequestConfig = {}
   ): Promise<ChatResponse<T>> {
+    const cacheKey = await this._cacheKey(path, config);
+    if (cacheKey) {
+      const entry = await this.cache!.get<T>(cacheKey);
+      if (entry) {
+        return new ChatResponse(entry.data, new Headers(entry.headers), entry.status, true);
+      }
+    }
+
     const ctx = this._prepareRequest(path, config);
 
     try {
       const response = await this._executeWithRetry(ctx);
-      const data = await response.json() as T;
+      const data = await this._readJSON<T>(response, ctx);
+      ctx.lease?.release((data as { usage?: { total_tokens?: number } })?.usage?.total_tokens);
+      this._finishRequest(ctx);
+
+      if (cacheKey) {
+        const cacheOptions = typeof config.cache === 'object' ? config.cache : {};
+        await this.cache!.set(cacheKey, data, response.headers, response.status, cacheOptions);
+      }
+
       return new ChatResponse(data, response.headers, response.status);
     } catch (error) {
-      if (ctx.timeoutId) {
-        clearTimeout(ctx.timeoutId);
-      }
+      ctx.lease?.release();
+      this._finishRequest(ctx);
       throw error;
     }
   }
 
+  /**
+   * Read a JSON body under the idle timeout
+   */
+  private async _readJSON<T>(response: Response, ctx: RequestContext): Promise<T> {
+    if (!response.body) {
+      return await response.json() as T;
+    }
+
+    try {
+      return await new Response(this._watchBody(response.body, ctx)).json() as T;
+    } catch (error) {
+      throw ctx.signal.aborted ? this._createAbortError(ctx) : error;
+    }
+  }
+
+  /**
+   * Enforce the idle timeout on a response body and map aborts to SDK errors.
+   * `onDone` runs once when the body ends, fails or is cancelled.
+   */
+  private _watchBody(
+    body: ReadableStream<Uint8Array>,
+    ctx: RequestContext,
+    onDone?: () => void
+  ): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+    const idleTimeout = ctx.timeouts.idle;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    const finish = () => {
+      clearTimeout(idleTimer);
+      if (!finished) {
+        finished = true;
+        onDone?.();
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        if (idleTimeout !== undefined) {
+          // Only the idle reader is aborted, so a resumable stream can reconnect
+          idleTimer = setTimeout(() => {
+            finish();
+            controller.error(new TimeoutError(
+              `Stream timed out after ${idleTimeout}ms without data`,
+              'idle',
+              idleTimeout
+            ));
+            reader.cancel().catch(() => {
+              // The connection is dropped either way
+            });
+          }, idleTimeout);
+        }
+
+        try {
+          const { done, value } = await reader.read();
+          if (finished) {
+            return;
+          }
+          clearTimeout(idleTimer);
+
+          if (done) {
+            finish();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          if (finished) {
+            return;
+          }
+          finish();
+          controller.error(ctx.signal.aborted ? this._createAbortError(ctx) : error);
+        }
+      },
+      cancel: reason => {
+        finish();
+        return reader.cancel(reason);
+      },
+    });
+  }
+
+  /**
+   * Cache key for requests that opted into caching while a client cache is configured
+   */
+  private async _cacheKey(path: string, config: InternalRequestConfig): Promise<string | undefined> {
+    if (!this.cache || !config.cache || typeof config.body !== 'string') {
+      return undefined;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(config.body);
+    } catch {
+      return undefined;
+    }
+    return this.cache.key(path, body, this);
+  }
+
   /**
    * Make a streaming request
    */
@@ -217,20 +547,49 @@ export class Lunaby {
         throw new Error('Response body is null');
       }
 
-      return { stream: response.body, abortController: ctx.abortController };
+      // Streams hold their scheduler slot and total timeout until the body is consumed or cancelled
+      const stream = this._watchBody(response.body, ctx, () => {
+        ctx.lease?.release();
+        this._finishRequest(ctx);
+      });
+
+      return { stream, abortController: ctx.abortController };
     } catch (error) {
-      if (ctx.timeoutId) {
-        clearTimeout(ctx.timeoutId);
-      }
+      ctx.lease?.release();
+      this._finishRequest(ctx);
       throw error;
     }
   }
 
   /**
-   * Check if status code is retryable
+   * Download a file by absolute URL through the configured fetch, with retries and timeouts.
+   * The API key is only sent to URLs under the base URL.
    */
-  private _isRetryableStatus(status: number): boolean {
-    return RETRYABLE_STATUS_CODES.has(status);
+  async download(
+    url: string,
+    config: RequestOptions = {}
+  ): Promise<{ bytes: Uint8Array; contentType: string | null }> {
+    const ctx = this._prepareRequest('', { ...config, method: 'GET' });
+    ctx.url = url;
+    delete ctx.headers['Content-Type'];
+    if (!url.startsWith(`${this.baseURL}/`)) {
+      delete ctx.headers['Authorization'];
+    }
+
+    try {
+      const response = await this._executeWithRetry(ctx);
+      const data = response.body
+        ? await new Response(this._watchBody(response.body, ctx)).arrayBuffer()
+        : await response.arrayBuffer();
+      ctx.lease?.release();
+      this._finishRequest(ctx);
+
+      return { bytes: new Uint8Array(data), contentType: response.headers.get('content-type') };
+    } catch (error) {
+      ctx.lease?.release();
+      this._finishRequest(ctx);
+      throw ctx.signal.aborted ? this._createAbortError(ctx) : error;
+    }
   }
 
   /**
@@ -246,66 +605,37 @@ export class Lunaby {
   }
 
   /**
-   * Calculate retry delay with exponential backoff
+   * Ask the policy's shouldRetry predicate, falling back to the default decision
    */
-  private _calculateRetryDelay(attempt: number, response?: Response): number {
-    // Respect Retry-After header if present
-    if (response) {
-      const retryAfter = response.headers.get('retry-after');
-      if (retryAfter) {
-        const seconds = parseInt(retryAfter, 10);
-        if (!isNaN(seconds)) {
-          return Math.min(seconds * 1000, MAX_RETRY_DELAY);
-        }
-      }
-    }
-
-    // Exponential backoff with jitter
-    const baseDelay = INITIAL_RETRY_DELAY * Math.pow(2, attempt);
-    const jitter = Math.random() * 0.1 * baseDelay;
-    return Math.min(baseDelay + jitter, MAX_RETRY_DELAY);
+  private _shouldRetry(policy: ResolvedRetryPolicy, error: Error, attempt: number, fallback: boolean): boolean {
+    return policy.shouldRetry?.(error, attempt) ?? fallback;
   }
 
-  /**
-   * Sleep for specified milliseconds
-   */
-  private _sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private _createAbortError(ctx: RequestContext): Error {
+    const phase = ctx.timedOut;
+    if (phase) {
+      const timeout = phase === 'connect' ? ctx.timeouts.connect : ctx.timeouts.total!;
+      const waiting = phase === 'connect' ? ' waiting for the response' : '';
+      return new TimeoutError(`Request timed out after ${timeout}ms${waiting}`, phase, timeout);
+    }
+    return new AbortError('Request was aborted');
   }
 
   /**
-   * Create error from response without throwing
+   * Sleep for specified milliseconds, interrupted by aborts and the total timeout
    */
-  private async _createErrorFromResponse(response: Response): Promise<Error> {
-    let body: unknown;
-
+  private async _sleep(ms: number, ctx: RequestContext): Promise<void> {
     try {
-      body = await response.json();
+      await sleep(ms, ctx.signal);
     } catch {
-      body = await response.text().catch(() => null);
-    }
-
-    const errorBody = body as { error?: string; message?: string } | null;
-
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('retry-after');
-      return new RateLimitError(
-        errorBody?.message || errorBody?.error || 'Rate limit exceeded',
-        retryAfter ? parseInt(retryAfter, 10) : undefined
-      );
+      throw this._createAbortError(ctx);
     }
-
-    return APIError.fromResponse(
-      response.status,
-      response.statusText,
-      errorBody ? { error: errorBody.error || '', message: errorBody.message } : undefined
-    );
   }
 
   /**
-   * Handle error response and throw appropriate error
+   * Create error from response without throwing
    */
-  private async _handleErrorResponse(response: Response): Promise<never> {
+  private async _createErrorFromResponse(response: Response): Promise<Error> {
     let body: unknown;
 
     try {
@@ -317,18 +647,28 @@ export class Lunaby {
     const errorBody = body as { error?: string; message?: string; details?: { categories?: Record<string, boolean> } } | null;
 
     if (response.status === 401) {
-      throw new AuthenticationError(errorBody?.message || errorBody?.error);
+      return new AuthenticationError(errorBody?.message || errorBody?.error);
     }
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get('retry-after');
-      throw new RateLimitError(
+      const retryAfter = parseRetryAfter(response.headers);
+      return new RateLimitError(
         errorBody?.message || errorBody?.error || 'Rate limit exceeded',
-        retryAfter ? parseInt(retryAfter, 10) : undefined
+        retryAfter !== undefined ? Math.ceil(retryAfter / 1000) : undefined
       );
     }
 
-    throw APIError.fromResponse(
+    // Policy rejections carry the triggered categories
+    const categories = errorBody?.details?.categories;
+    if (response.status >= 400 && response.status < 500 && categories && typeof categories === 'object') {
+      return new ContentFilterError(
+        errorBody?.message || errorBody?.error || undefined,
+        categories,
+        response.status
+      );
+    }
+
+    return APIError.fromResponse(
       response.status,
       response.statusText,
       errorBody ? { error: errorBody.error || '', message: errorBody.message, details: errorBody.details } : undefined
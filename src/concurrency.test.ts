@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { mapConcurrent } from './concurrency.js';
+
+describe('mapConcurrent', () => {
+  it('keeps input order and never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+
+  it('rejects with the first error and starts no new calls after it', async () => {
+    const started: number[] = [];
+
+    const error = await mapConcurrent([0, 1, 2, 3], 1, async item => {
+      started.push(item);
+      if (item === 1) throw new Error('boom');
+      return item;
+    }).catch(e => e);
+
+    expect(error.message).toBe('boom');
+    expect(started).toEqual([0, 1]);
+  });
+});
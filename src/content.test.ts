@@ -0,0 +1,65 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  contentToText,
+  detectImageMimeType,
+  imageFromBlob,
+  imageFromBuffer,
+  imageFromDataURL,
+  imageFromFile,
+  imageURLPart,
+  textPart,
+} from './content.js';
+import { ValidationError } from './errors.js';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+describe('image parts', () => {
+  it('detects image types from magic bytes', () => {
+    expect(detectImageMimeType(PNG)).toBe('image/png');
+    expect(detectImageMimeType(JPEG)).toBe('image/jpeg');
+    expect(detectImageMimeType(new TextEncoder().encode('RIFF\0\0\0\0WEBP'))).toBe('image/webp');
+    expect(detectImageMimeType(new Uint8Array([1, 2, 3]))).toBeUndefined();
+  });
+
+  it('builds base64 parts from bytes and data URLs', () => {
+    expect(imageFromBuffer(PNG, { detail: 'low' })).toEqual({
+      type: 'image_base64',
+      image_base64: { data: 'iVBORw0KGgo=', mime_type: 'image/png', detail: 'low' },
+    });
+    expect(imageFromDataURL('data:image/gif;base64,R0lGODlh')).toEqual({
+      type: 'image_base64',
+      image_base64: { data: 'R0lGODlh', mime_type: 'image/gif' },
+    });
+  });
+
+  it('rejects bytes of unknown type and malformed data URLs', () => {
+    expect(() => imageFromBuffer(new Uint8Array([1, 2, 3]))).toThrow(ValidationError);
+    expect(() => imageFromDataURL('https://example.com/cat.png')).toThrow(ValidationError);
+  });
+
+  it('falls back to the Blob type and the file extension', async () => {
+    const blobPart = await imageFromBlob(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/webp' }));
+    expect(blobPart.image_base64.mime_type).toBe('image/webp');
+
+    const dir = await mkdtemp(join(tmpdir(), 'lunaby-content-'));
+    try {
+      const path = join(dir, 'photo.JPG');
+      await writeFile(path, new Uint8Array([1, 2, 3]));
+      expect((await imageFromFile(path)).image_base64.mime_type).toBe('image/jpeg');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('contentToText', () => {
+  it('joins text parts and skips images', () => {
+    expect(contentToText([textPart('a '), imageURLPart('https://example.com/x.png', 'high'), textPart('b')])).toBe('a b');
+    expect(contentToText('plain')).toBe('plain');
+    expect(contentToText(null)).toBe('');
+  });
+});
@@ -0,0 +1,153 @@
+import type {
+  ChatContentPart,
+  ChatMessageContent,
+  ImageBase64ContentPart,
+  ImageDetail,
+  ImageURLContentPart,
+  TextContentPart,
+} from './types.js';
+import { ValidationError } from './errors.js';
+import { base64ToBytes, bytesToBase64, extensionOf, loadFs } from './runtime.js';
+
+export interface ImagePartOptions {
+  mimeType?: string;
+  detail?: ImageDetail;
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s;
+
+/**
+ * Detect an image MIME type from its magic bytes
+ */
+export function detectImageMimeType(data: Uint8Array): string | undefined {
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => data[i] === byte);
+
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return 'image/png';
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) return 'image/gif';
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && data[8] === 0x57 && data[9] === 0x45 && data[10] === 0x42 && data[11] === 0x50) {
+    return 'image/webp';
+  }
+
+  return undefined;
+}
+
+/**
+ * Image MIME type from a file extension
+ */
+export function imageMimeTypeFromPath(path: string): string | undefined {
+  return EXTENSION_MIME_TYPES[extensionOf(path).toLowerCase()];
+}
+
+export function textPart(text: string): TextContentPart {
+  return { type: 'text', text };
+}
+
+export function imageURLPart(url: string, detail?: ImageDetail): ImageURLContentPart {
+  return { type: 'image_url', image_url: detail ? { url, detail } : { url } };
+}
+
+/**
+ * Build an inline image part from raw bytes
+ */
+export function imageFromBuffer(data: Uint8Array, options: ImagePartOptions = {}): ImageBase64ContentPart {
+  const mimeType = options.mimeType || detectImageMimeType(data);
+  if (!mimeType) {
+    throw new ValidationError('Could not detect image MIME type, pass mimeType explicitly', 'mimeType');
+  }
+
+  return {
+    type: 'image_base64',
+    image_base64: {
+      data: bytesToBase64(data),
+      mime_type: mimeType,
+      ...(options.detail && { detail: options.detail }),
+    },
+  };
+}
+
+/**
+ * Build an inline image part from a Blob or File, e.g. from a file input
+ */
+export async function imageFromBlob(blob: Blob, options: ImagePartOptions = {}): Promise<ImageBase64ContentPart> {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  return imageFromBuffer(data, { ...options, mimeType: options.mimeType || detectImageMimeType(data) || blob.type || undefined });
+}
+
+/**
+ * Build an inline image part from a file on disk. Node only.
+ */
+export async function imageFromFile(path: string, options: ImagePartOptions = {}): Promise<ImageBase64ContentPart> {
+  const { readFile } = await loadFs();
+  const data = await readFile(path);
+  const mimeType = options.mimeType || detectImageMimeType(data) || imageMimeTypeFromPath(path);
+
+  return imageFromBuffer(data, { ...options, mimeType });
+}
+
+/**
+ * Build an inline image part from a base64 data URL
+ */
+export function imageFromDataURL(dataURL: string, options: ImagePartOptions = {}): ImageBase64ContentPart {
+  const match = DATA_URL_PATTERN.exec(dataURL);
+  if (!match) {
+    throw new ValidationError('dataURL must be a base64 encoded data URL', 'dataURL');
+  }
+
+  const data = base64ToBytes(match[2]);
+
+  return imageFromBuffer(data, { ...options, mimeType: options.mimeType || match[1] || detectImageMimeType(data) });
+}
+
+/**
+ * Extract the text of a message content, ignoring non-text parts
+ */
+export function contentToText(content: ChatMessageContent | null | undefined): string {
+  if (!content) {
+    return '';
+  }
+
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .filter((part): part is TextContentPart => part.type === 'text')
+    .map(part => part.text)
+    .join('');
+}
+
+export function isContentPart(value: unknown): value is ChatContentPart {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const part = value as Record<string, any>;
+
+  switch (part.type) {
+    case 'text':
+      return typeof part.text === 'string';
+    case 'image_url':
+      return typeof part.image_url?.url === 'string' && isImageDetail(part.image_url.detail);
+    case 'image_base64':
+      return (
+        typeof part.image_base64?.data === 'string' &&
+        typeof part.image_base64?.mime_type === 'string' &&
+        isImageDetail(part.image_base64.detail)
+      );
+    default:
+      return false;
+  }
+}
+
+function isImageDetail(detail: unknown): boolean {
+  return detail === undefined || detail === 'auto' || detail === 'low' || detail === 'high';
+}
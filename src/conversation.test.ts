@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from './client.js';
+import { Conversation, keepFirst, summarizeOlderTurns } from './conversation.js';
+import { MockTransport, chatCompletion, toolCallChunks } from './testing/index.js';
+import type { ChatMessage } from './types.js';
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+  return { transport, client };
+}
+
+/** One token per message keeps budgets easy to reason about */
+const countMessages = (messages: ChatMessage[]) => messages.length;
+
+function sentMessages(transport: MockTransport): ChatMessage[] {
+  return (transport.lastRequest?.body as { messages: ChatMessage[] }).messages;
+}
+
+describe('Conversation', () => {
+  it('sends the system prompt first and appends replies from create and createStream', async () => {
+    const { transport, client } = setup();
+    const conversation = new Conversation(client, { system: 'Be brief.', temperature: 0.2 });
+    transport.queueChatCompletion('Hello!');
+    transport.queueStream(['Fine, ', 'thanks.']);
+
+    await conversation.create('Hi');
+    const stream = await conversation.createStream('How are you?');
+    await stream.toContent();
+
+    expect(sentMessages(transport)[0]).toEqual({ role: 'system', content: 'Be brief.' });
+    expect(transport.lastRequest?.body).toMatchObject({ temperature: 0.2 });
+    expect(conversation.history).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+      { role: 'user', content: 'How are you?' },
+      { role: 'assistant', content: 'Fine, thanks.' },
+    ]);
+  });
+
+  it('keeps streamed tool calls on the appended reply', async () => {
+    const { transport, client } = setup();
+    const conversation = new Conversation(client);
+    const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'now', arguments: '{}' } };
+    transport.queueStream(toolCallChunks([toolCall]));
+
+    await (await conversation.createStream('What time is it?')).toContent();
+
+    expect(conversation.history[1]).toEqual({ role: 'assistant', content: '', tool_calls: [toolCall] });
+  });
+
+  it('drops the oldest turns to fit the budget, keeping tool calls with their results', async () => {
+    const { transport, client } = setup();
+    const conversation = new Conversation(client, {
+      system: 'sys',
+      tokenBudget: 5,
+      countTokens: countMessages,
+      messages: [
+        { role: 'user', content: 'q1' },
+        { role: 'assistant', content: 'a1' },
+        { role: 'user', content: 'q2' },
+        { role: 'assistant', content: '', tool_calls: [{ id: 't', type: 'function', function: { name: 'f', arguments: '{}' } }] },
+        { role: 'tool', tool_call_id: 't', content: 'result' },
+        { role: 'assistant', content: 'a2' },
+      ],
+    });
+    transport.queueChatCompletion('a3');
+
+    await conversation.create('q3');
+
+    expect(sentMessages(transport).map(message => message.content)).toEqual(['sys', 'q3']);
+    expect(conversation.turns).toHaveLength(1);
+  });
+
+  it('keeps the first turns with keepFirst', async () => {
+    const { transport, client } = setup();
+    const conversation = new Conversation(client, {
+      tokenBudget: 4,
+      countTokens: countMessages,
+      truncation: keepFirst(1),
+      messages: ['example', 'old', 'recent'].flatMap((text): ChatMessage[] => [
+        { role: 'user', content: text },
+        { role: 'assistant', content: `re: ${text}` },
+      ]),
+    });
+    transport.queueChatCompletion('ok');
+
+    await conversation.create('now');
+
+    expect(sentMessages(transport).map(message => message.content)).toEqual(['example', 're: example', 'now']);
+  });
+
+  it('summarizes older turns with a model call', async () => {
+    const { transport, client } = setup();
+    const conversation = new Conversation(client, {
+      tokenBudget: 4,
+      countTokens: countMessages,
+      truncation: summarizeOlderTurns({ keepLast: 1, model: 'lunaby' }),
+      messages: [
+        { role: 'user', content: 'My name is Ada.' },
+        { role: 'assistant', content: 'Hi Ada.' },
+        { role: 'user', content: 'I like tea.' },
+        { role: 'assistant', content: 'Noted.' },
+      ],
+    });
+    transport.queueJSON(chatCompletion('Ada likes tea.'));
+    transport.queueChatCompletion('Hello again, Ada.');
+
+    await conversation.create('Who am I?');
+
+    expect(transport.requests[0].body).toMatchObject({ model: 'lunaby' });
+    expect(sentMessages(transport)).toEqual([
+      { role: 'system', content: 'Summary of the earlier conversation: Ada likes tea.' },
+      { role: 'user', content: 'Who am I?' },
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import type { ChatCompletionResponse, ChatMessage, Model } from './types.js';
+import type { ChatCompletions, CreateChatCompletionOptions } from './resources/chat.js';
+import type { ChatStream, ChatResponse } from './streaming.js';
+import type { Lunaby } from './client.js';
+import { contentToText } from './content.js';
+import { estimateMessageTokens } from './tokenizer.js';
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Summarize the conversation so far in a few sentences. Keep names, decisions, open questions and facts the assistant will need later.';
+
+/**
+ * A turn starts at a user message and runs until the next one, so an assistant
+ * tool call always stays with its tool results.
+ */
+export type ConversationTurn = ChatMessage[];
+
+export interface TruncationContext {
+  /** Prompt token budget the history must fit into */
+  budget: number;
+  /** Tokens used by the system prompt and the turns */
+  countTokens: (turns: ConversationTurn[]) => number;
+  chat: ChatCompletions;
+}
+
+/**
+ * Shrink the history to fit the budget. The last turn (the pending request) must be kept.
+ */
+export type TruncationStrategy = (
+  turns: ConversationTurn[],
+  context: TruncationContext
+) => ConversationTurn[] | Promise<ConversationTurn[]>;
+
+export interface ConversationOptions extends CreateChatCompletionOptions {
+  system?: string;
+  /** Initial history, without the system prompt */
+  messages?: ChatMessage[];
+  /** Prompt token budget; the history is trimmed before each call when it is exceeded */
+  tokenBudget?: number;
+  truncation?: TruncationStrategy;
+  countTokens?: (messages: ChatMessage[]) => number;
+}
+
+export type ConversationInput = string | ChatMessage | ChatMessage[];
+
+/**
+ * Drop the oldest turns until the history fits
+ */
+export function dropOldest(): TruncationStrategy {
+  return (turns, { budget, countTokens }) => {
+    const kept = [...turns];
+    while (kept.length > 1 && countTokens(kept) > budget) {
+      kept.shift();
+    }
+    return kept;
+  };
+}
+
+/**
+ * Always keep the first N turns (e.g. instructions or examples) and drop the oldest after them
+ */
+export function keepFirst(count: number): TruncationStrategy {
+  return (turns, { budget, countTokens }) => {
+    const head = turns.slice(0, Math.min(count, turns.length - 1));
+    const tail = turns.slice(head.length);
+
+    while (tail.length > 1 && countTokens([...head, ...tail]) > budget) {
+      tail.shift();
+    }
+    return [...head, ...tail];
+  };
+}
+
+export interface SummarizeOptions {
+  /** Number of recent turns kept verbatim (default 2) */
+  keepLast?: number;
+  model?: Model;
+  prompt?: string;
+}
+
+/**
+ * Replace older turns with a model-written summary, then drop the oldest if still over budget
+ */
+export function summarizeOlderTurns(options: SummarizeOptions = {}): TruncationStrategy {
+  const { keepLast = 2, model, prompt = DEFAULT_SUMMARY_PROMPT } = options;
+
+  return async (turns, context) => {
+    const { budget, countTokens, chat } = context;
+    const splitAt = Math.max(turns.length - Math.max(keepLast, 1), 0);
+
+    if (splitAt === 0) {
+      return dropOldest()(turns, context);
+    }
+
+    const older = turns.slice(0, splitAt).flat();
+    const response = await chat.create([...older, { role: 'user', content: prompt }], model ? { model } : {});
+    const summary: ConversationTurn = [{
+      role: 'system',
+      content: `Summary of the earlier conversation: ${contentToText(response.data.choices[0].message.content)}`,
+    }];
+
+    const summarized = [summary, ...turns.slice(splitAt)];
+    return countTokens(summarized) > budget ? dropOldest()(summarized, context) : summarized;
+  };
+}
+
+/**
+ * Conversation history built on `client.chat`. Keeps the system prompt, appends
+ * assistant replies automatically and trims old turns to a token budget.
+ */
+export class Conversation {
+  system?: string;
+  tokenBudget?: number;
+
+  private _history: ChatMessage[];
+  private readonly _truncation: TruncationStrategy;
+  private readonly _countTokens: (messages: ChatMessage[]) => number;
+  private readonly _defaults: CreateChatCompletionOptions;
+
+  constructor(private readonly client: Lunaby, options: ConversationOptions = {}) {
+    const { system, messages = [], tokenBudget, truncation, countTokens, ...defaults } = options;
+
+    this.system = system;
+    this.tokenBudget = tokenBudget;
+    this._history = [...messages];
+    this._truncation = truncation || dropOldest();
+    this._countTokens = countTokens || (messages => estimateMessageTokens(messages, defaults.tools));
+    this._defaults = defaults;
+  }
+
+  /**
+   * History without the system prompt
+   */
+  get history(): ChatMessage[] {
+    return [...this._history];
+  }
+
+  /**
+   * Messages as sent to the API, system prompt first
+   */
+  get messages(): ChatMessage[] {
+    return this.system ? [{ role: 'system', content: this.system }, ...this._history] : [...this._history];
+  }
+
+  get turns(): ConversationTurn[] {
+    return splitTurns(this._history);
+  }
+
+  /**
+   * Append messages without calling the model, e.g. tool results
+   */
+  add(input: ConversationInput): this {
+    this._history.push(...toMessages(input));
+    return this;
+  }
+
+  clear(): this {
+    this._history = [];
+    return this;
+  }
+
+  /**
+   * Send the input (if any) and append the assistant reply to the history
+   */
+  async create(
+    input?: ConversationInput,
+    options: CreateChatCompletionOptions = {}
+  ): Promise<ChatResponse<ChatCompletionResponse>> {
+    if (input !== undefined) {
+      this.add(input);
+    }
+    await this.truncate();
+
+    const response = await this.client.chat.create(this.messages, { ...this._defaults, ...options });
+    const message = response.data.choices[0]?.message;
+    if (message) {
+      this._history.push({ ...message, content: message.content ?? '' });
+    }
+
+    return response;
+  }
+
+  /**
+   * Stream the reply; it is appended to the history from `fullContent` once the stream completes
+   */
+  async createStream(
+    input?: ConversationInput,
+    options: CreateChatCompletionOptions = {}
+  ): Promise<ChatStream> {
+    if (input !== undefined) {
+      this.add(input);
+    }
+    await this.truncate();
+
+    const stream = await this.client.chat.createStream(this.messages, { ...this._defaults, ...options });
+
+    return stream.onComplete(completed => {
+      const message: ChatMessage = { role: 'assistant', content: completed.fullContent };
+      if (completed.toolCalls.length > 0) {
+        message.tool_calls = completed.toolCalls;
+      }
+      this._history.push(message);
+    });
+  }
+
+  /**
+   * Count the tokens of the messages that would be sent
+   */
+  countTokens(): number {
+    return this._countTokens(this.messages);
+  }
+
+  /**
+   * Apply the truncation strategy if the history exceeds the token budget
+   */
+  async truncate(): Promise<void> {
+    const budget = this.tokenBudget;
+    if (budget === undefined || this.countTokens() <= budget) {
+      return;
+    }
+
+    const systemMessages: ChatMessage[] = this.system ? [{ role: 'system', content: this.system }] : [];
+    const context: TruncationContext = {
+      budget,
+      countTokens: turns => this._countTokens([...systemMessages, ...turns.flat()]),
+      chat: this.client.chat,
+    };
+
+    const turns = await this._truncation(splitTurns(this._history), context);
+    this._history = turns.flat();
+  }
+}
+
+function toMessages(input: ConversationInput): ChatMessage[] {
+  if (typeof input === 'string') {
+    return [{ role: 'user', content: input }];
+  }
+  return Array.isArray(input) ? input : [input];
+}
+
+function splitTurns(messages: ChatMessage[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return turns;
+}
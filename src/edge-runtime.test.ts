@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { SourceTextModule } from 'node:vm';
+import { EdgeVM } from '@edge-runtime/vm';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+// Runs the built ESM bundle (`npm run build`) inside an edge-runtime VM, which has
+// fetch/Web Streams/Web Crypto but no `process`, `require` or Node built-ins.
+// SourceTextModule needs --experimental-vm-modules, set for this file in vitest.config.ts.
+const bundleURL = new URL('../dist/index.mjs', import.meta.url);
+
+describe('edge runtime bundle', () => {
+  let vm: EdgeVM;
+
+  beforeAll(async () => {
+    vm = new EdgeVM();
+    const bundle = new SourceTextModule(readFileSync(fileURLToPath(bundleURL), 'utf8'), {
+      context: vm.context,
+      identifier: bundleURL.href,
+    });
+    await bundle.link(specifier => {
+      throw new Error(`The bundle must not import ${specifier} at load time`);
+    });
+    await bundle.evaluate();
+    (vm.context as Record<string, unknown>).__lunaby = bundle.namespace;
+  });
+
+  it('evaluates without Node globals', () => {
+    expect(vm.evaluate('typeof process')).toBe('undefined');
+    expect(vm.evaluate('typeof require')).toBe('undefined');
+    expect(vm.evaluate('typeof globalThis.__lunaby.Lunaby')).toBe('function');
+  });
+
+  it('constructs a client and decodes generated image bytes', async () => {
+    const result = await vm.evaluate<Promise<{ bytes: number[]; mimeType: string; authorization: string | null }>>(`
+      (async () => {
+        const { Lunaby } = globalThis.__lunaby;
+        let authorization = null;
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+        const b64 = btoa(String.fromCharCode(...png));
+        const client = new Lunaby({
+          apiKey: 'edge-key',
+          fetch: async (_url, init) => {
+            authorization = new Headers(init.headers).get('authorization');
+            return new Response(JSON.stringify({ created: 0, data: [{ b64_json: b64 }] }), {
+              headers: { 'content-type': 'application/json' },
+            });
+          },
+        });
+        const image = await client.images.generateBytes('a lighthouse at dusk');
+        return { bytes: Array.from(image.bytes), mimeType: image.mimeType, authorization };
+      })()
+    `);
+
+    expect(result.bytes).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+    expect(result.mimeType).toBe('image/png');
+    expect(result.authorization).toBe('Bearer edge-key');
+  });
+});
@@ -1,4 +1,4 @@
-import type { LunabyErrorDetails, APIErrorResponse } from './types.js';
+import type { LunabyErrorDetails, APIErrorResponse, ImageJobStatus, SchemaViolation, TimeoutPhase } from './types.js';
 
 export class LunabyError extends Error {
   readonly status?: number;
@@ -88,9 +88,15 @@ export class RateLimitError extends LunabyError {
 }
 
 export class TimeoutError extends LunabyError {
-  constructor(message: string = 'Request timed out') {
+  /** Which limit was hit: waiting for headers, between body chunks, or overall */
+  readonly phase?: TimeoutPhase;
+  readonly timeout?: number;
+
+  constructor(message: string = 'Request timed out', phase?: TimeoutPhase, timeout?: number) {
     super(message, { code: 'ETIMEDOUT', type: 'timeout_error' });
     this.name = 'TimeoutError';
+    this.phase = phase;
+    this.timeout = timeout;
   }
 }
 
@@ -104,13 +110,29 @@ export class ConnectionError extends LunabyError {
 export class ContentFilterError extends LunabyError {
   readonly categories?: Record<string, boolean>;
 
-  constructor(message: string = 'Content was filtered due to policy violation', categories?: Record<string, boolean>) {
-    super(message, { type: 'content_filter_error', details: { categories } });
+  constructor(
+    message: string = 'Content was filtered due to policy violation',
+    categories?: Record<string, boolean>,
+    status?: number
+  ) {
+    super(message, { status, type: 'content_filter_error', details: { categories } });
     this.name = 'ContentFilterError';
     this.categories = categories;
   }
 }
 
+export class ImageJobError extends LunabyError {
+  readonly jobId: string;
+  readonly jobStatus: ImageJobStatus;
+
+  constructor(message: string, jobId: string, jobStatus: ImageJobStatus, code?: string) {
+    super(message, { code, type: 'image_job_error' });
+    this.name = 'ImageJobError';
+    this.jobId = jobId;
+    this.jobStatus = jobStatus;
+  }
+}
+
 export class StreamError extends LunabyError {
   constructor(message: string = 'Error occurred during streaming', cause?: Error) {
     super(message, { type: 'stream_error' }, cause);
@@ -125,9 +147,32 @@ export class AbortError extends LunabyError {
   }
 }
 
+export class CircuitOpenError extends LunabyError {
+  readonly retryAt?: Date;
+
+  constructor(retryAt?: Date) {
+    super('Circuit breaker is open after repeated server errors', { code: 'ECIRCUITOPEN', type: 'circuit_open_error' });
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
 export class ValidationError extends LunabyError {
   constructor(message: string, field?: string) {
     super(message, { type: 'validation_error', details: { field } });
     this.name = 'ValidationError';
   }
 }
+
+export class SchemaValidationError extends ValidationError {
+  readonly violations: SchemaViolation[];
+  readonly content: string;
+
+  constructor(message: string, violations: SchemaViolation[], content: string) {
+    const summary = violations.map(v => `${v.path} ${v.message}`).join('; ');
+    super(summary ? `${message}: ${summary}` : message, 'response_format');
+    this.name = 'SchemaValidationError';
+    this.violations = violations;
+    this.content = content;
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from './client.js';
+import { AbortError, ImageJobError } from './errors.js';
+import { MockTransport } from './testing/index.js';
+import type { ImageJob, LunabyClientOptions } from './types.js';
+
+function setup(options: LunabyClientOptions = {}) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, ...options });
+  return { transport, client };
+}
+
+function job(overrides: Partial<ImageJob> = {}): ImageJob {
+  return { id: 'job_1', object: 'image.job', status: 'queued', created: 0, ...overrides };
+}
+
+const result = { created: 0, data: [{ b64_json: 'aW1n' }] };
+
+describe('image jobs', () => {
+  it('reuses one Idempotency-Key when the submit is retried', async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 1, initialDelay: 1, jitter: 0 } });
+    transport.queueError(503, { error: 'unavailable' });
+    transport.queueJSON(job());
+
+    await client.images.createJob('a castle', { n: 4 });
+
+    const [first, second] = transport.requests.map(request => request.headers['idempotency-key']);
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second).toBe(first);
+    expect(transport.lastRequest?.body).toMatchObject({ prompt: 'a castle', n: 4, response_format: 'b64_json' });
+  });
+
+  it('keeps an Idempotency-Key the caller passes', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(job());
+
+    await client.images.createJob('a castle', { headers: { 'idempotency-key': 'mine' } });
+
+    expect(transport.lastRequest?.headers['idempotency-key']).toBe('mine');
+  });
+
+  it('polls until the job succeeds, reporting progress along the way', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(job());
+    transport.queueJSON(job({ status: 'in_progress', progress: 0.5 }));
+    transport.queueJSON(job({ status: 'in_progress', progress: 0.5 }));
+    transport.queueJSON(job({ status: 'succeeded', progress: 1, result }));
+    const progress: Array<number | undefined> = [];
+
+    const handle = await client.images.createJob('a castle');
+    handle.onProgress(update => progress.push(update.progress));
+    const response = await handle.wait({ pollInterval: 1 });
+
+    expect(response.data).toEqual(result);
+    expect(progress).toEqual([0.5, 1]);
+    expect(transport.requests.slice(1).map(request => `${request.method} ${request.path}`))
+      .toEqual(Array(3).fill('GET /v1/images/jobs/job_1'));
+  });
+
+  it('rejects with ImageJobError when the job fails or is cancelled', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(job({ status: 'failed', error: { message: 'Out of capacity', code: 'capacity' } }));
+    transport.queueJSON(job({ id: 'job_2' }));
+    transport.queueJSON(job({ id: 'job_2', status: 'cancelled' }));
+
+    const failed = await (await client.images.retrieveJob('job_1')).wait().catch(e => e);
+    const handle = await client.images.retrieveJob('job_2');
+    await handle.cancel();
+    const cancelled = await handle.wait().catch(e => e);
+
+    expect(failed).toBeInstanceOf(ImageJobError);
+    expect(failed).toMatchObject({ message: 'Out of capacity', jobId: 'job_1', jobStatus: 'failed', code: 'capacity' });
+    expect(transport.requests[2].path).toBe('/v1/images/jobs/job_2/cancel');
+    expect(cancelled).toMatchObject({ jobId: 'job_2', jobStatus: 'cancelled' });
+  });
+
+  it('resumes waiting from a serialized handle', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(job({ status: 'in_progress', progress: 0.2 }));
+    transport.queueJSON(job({ status: 'succeeded', result }));
+
+    const saved = JSON.parse(JSON.stringify(await client.images.createJob('a castle')));
+    const resumed = await client.images.retrieveJob(saved);
+
+    expect(saved).toEqual({ id: 'job_1', status: 'in_progress', created: 0, progress: 0.2 });
+    expect(resumed.done).toBe(true);
+    expect((await resumed.wait()).data).toEqual(result);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(job());
+    const controller = new AbortController();
+
+    const handle = await client.images.createJob('a castle');
+    setTimeout(() => controller.abort(), 10);
+    const error = await handle.wait({ pollInterval: 1000, signal: controller.signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(transport.requests).toHaveLength(1);
+  });
+});
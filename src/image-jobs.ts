@@ -0,0 +1,130 @@
+import type {
+  ImageGenerationResponse,
+  ImageJob,
+  ImageJobStatus,
+  RequestOptions,
+  SerializedImageJob,
+} from './types.js';
+import { ChatResponse } from './streaming.js';
+import { ImageJobError, LunabyError } from './errors.js';
+import { parseRetryAfter } from './retry.js';
+import { sleep } from './concurrency.js';
+import type { Images } from './resources/images.js';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+
+const TERMINAL_STATUSES: ImageJobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export interface WaitForImageJobOptions extends RequestOptions {
+  /** Time between status polls in milliseconds (default 1000); a Retry-After on the poll response wins when longer */
+  pollInterval?: number;
+}
+
+/**
+ * Handle to an async image generation job. Each poll is an ordinary request,
+ * so transient failures are retried with the client's backoff.
+ * `JSON.stringify(handle)` gives the job state that `images.retrieveJob()` resumes from.
+ */
+export class ImageJobHandle {
+  private _job: ImageJob;
+  private _response: ChatResponse<ImageJob>;
+  private readonly _progressListeners: Array<(job: ImageJob) => void> = [];
+
+  constructor(
+    response: ChatResponse<ImageJob>,
+    private readonly images: Images
+  ) {
+    this._response = response;
+    this._job = response.data;
+  }
+
+  get id(): string {
+    return this._job.id;
+  }
+
+  /**
+   * The job as of the last poll
+   */
+  get snapshot(): ImageJob {
+    return this._job;
+  }
+
+  get done(): boolean {
+    return TERMINAL_STATUSES.includes(this._job.status);
+  }
+
+  /**
+   * Register a callback fired whenever a poll sees a new status or progress
+   */
+  onProgress(listener: (job: ImageJob) => void): this {
+    this._progressListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Fetch the current state of the job
+   */
+  async status(options: RequestOptions = {}): Promise<ImageJob> {
+    const response = await this.images.pollJob(this.id, options);
+    this.update(response);
+    return this._job;
+  }
+
+  /**
+   * Poll until the job finishes and resolve to the same response as `images.generate()`.
+   * Aborting the signal stops waiting but leaves the job running on the server.
+   */
+  async wait(options: WaitForImageJobOptions = {}): Promise<ChatResponse<ImageGenerationResponse>> {
+    const { pollInterval = DEFAULT_POLL_INTERVAL, ...requestOptions } = options;
+
+    while (!this.done) {
+      const serverDelay = parseRetryAfter(this._response.headers);
+      await sleep(Math.max(pollInterval, serverDelay ?? 0), requestOptions.signal);
+      await this.status(requestOptions);
+    }
+
+    return this.result();
+  }
+
+  /**
+   * Ask the server to stop the job. Waiting callers reject with ImageJobError on their next poll.
+   */
+  async cancel(options: RequestOptions = {}): Promise<ImageJob> {
+    const response = await this.images.cancelJob(this.id, options);
+    this.update(response);
+    return this._job;
+  }
+
+  toJSON(): SerializedImageJob {
+    const { id, status, created, progress } = this._job;
+    return { id, status, created, progress };
+  }
+
+  private result(): ChatResponse<ImageGenerationResponse> {
+    const job = this._job;
+
+    if (job.status === 'failed') {
+      throw new ImageJobError(job.error?.message || `Image job ${job.id} failed`, job.id, job.status, job.error?.code);
+    }
+    if (job.status === 'cancelled') {
+      throw new ImageJobError(`Image job ${job.id} was cancelled`, job.id, job.status);
+    }
+    if (!job.result) {
+      throw new LunabyError(`Image job ${job.id} succeeded without a result`);
+    }
+
+    return new ChatResponse(job.result, this._response.headers, this._response.status, this._response.cached);
+  }
+
+  private update(response: ChatResponse<ImageJob>): void {
+    const previous = this._job;
+    this._response = response;
+    this._job = response.data;
+
+    if (previous.status !== this._job.status || previous.progress !== this._job.progress) {
+      for (const listener of this._progressListeners) {
+        listener(this._job);
+      }
+    }
+  }
+}
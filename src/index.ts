@@ -1,10 +1,87 @@
 
 export { Lunaby, Lunaby as default } from './client.js';
 
-export { ChatCompletions, type CreateChatCompletionOptions } from './resources/chat.js';
-export { Images, type GenerateImageOptions } from './resources/images.js';
+export {
+  ChatCompletions,
+  type CreateChatCompletionOptions,
+  type RunnableTool,
+  type RunToolsOptions,
+  type RunToolsResult,
+  type ParseChatCompletionOptions,
+  type ParsedChatCompletion,
+} from './resources/chat.js';
+export {
+  Images,
+  type GenerateImageOptions,
+  type GeneratedImageBytes,
+  type EditImageOptions,
+  type CreateImageVariationOptions,
+  type GeneratedImage,
+  type GeneratedImages,
+  type SaveImagesOptions,
+  type SavedImage,
+  type ImageSweepOptions,
+  type ImageSweepCell,
+} from './resources/images.js';
+export { ImageJobHandle, type WaitForImageJobOptions } from './image-jobs.js';
+export { toUploadBlob, type Uploadable } from './uploads.js';
+export { Models, type ListModelsOptions } from './resources/models.js';
+export {
+  Embeddings,
+  decodeEmbedding,
+  type CreateEmbeddingOptions,
+  type EmbeddingResult,
+} from './resources/embeddings.js';
+export {
+  Moderations,
+  flaggedCategories,
+  type CreateModerationOptions,
+} from './resources/moderations.js';
+export {
+  Batches,
+  type BatchInput,
+  type BatchSummary,
+  type RunBatchOptions,
+  type CreateBatchOptions,
+  type ListBatchesOptions,
+} from './resources/batches.js';
+export { Page } from './pagination.js';
+export { cosineSimilarity, dotProduct, normalize, topKSimilar, type Vector } from './similarity.js';
+
+export {
+  ChatStream,
+  ChatResponse,
+  parseSSEStream,
+  type ChatStreamOptions,
+  type ChatStreamFormat,
+  type StreamResumer,
+  type StreamResumeContext,
+} from './streaming.js';
+
+export {
+  Conversation,
+  dropOldest,
+  keepFirst,
+  summarizeOlderTurns,
+  type ConversationOptions,
+  type ConversationInput,
+  type ConversationTurn,
+  type SummarizeOptions,
+  type TruncationContext,
+  type TruncationStrategy,
+} from './conversation.js';
 
-export { ChatStream, ChatResponse, parseSSEStream } from './streaming.js';
+export {
+  textPart,
+  imageURLPart,
+  imageFromBuffer,
+  imageFromBlob,
+  imageFromFile,
+  imageFromDataURL,
+  detectImageMimeType,
+  contentToText,
+  type ImagePartOptions,
+} from './content.js';
 
 export {
   LunabyError,
@@ -15,10 +92,20 @@ export {
   ConnectionError,
   ContentFilterError,
   StreamError,
+  ImageJobError,
   AbortError,
   ValidationError,
+  SchemaValidationError,
+  CircuitOpenError,
 } from './errors.js';
 
+export { CircuitBreaker, parseRetryAfter } from './retry.js';
+export { ResponseCache, MemoryCacheStore, FileCacheStore } from './cache.js';
+export { RequestScheduler, estimateRequestTokens, type SchedulerLease } from './scheduler.js';
+
+export { validateJSONSchema } from './schema.js';
+export { estimateTokens, estimateMessageTokens, getModelLimits, registerModelLimits } from './tokenizer.js';
+
 export type {
   // Core types
   Model,
@@ -28,24 +115,81 @@ export type {
 
   // Chat types
   ChatMessage,
+  ChatMessageContent,
+  ChatContentPart,
+  TextContentPart,
+  ImageURLContentPart,
+  ImageBase64ContentPart,
+  ImageDetail,
   ChatCompletionRequest,
   ChatCompletionResponse,
   ChatCompletionChoice,
   ChatCompletionChunk,
   ChatCompletionStreamChoice,
+  ChatCompletionDelta,
+  FinishReason,
   TokenUsage,
   ToolCall,
+  ToolCallDelta,
   ToolDefinition,
+  ResponseFormat,
+  ModelLimits,
+  PreflightMode,
+  JSONSchema,
+  JSONSchemaType,
+  SchemaViolation,
+
+  // Model types
+  ModelInfo,
+  ModelCapabilities,
+  PaginatedResponse,
+
+  // Embedding types
+  EmbeddingRequest,
+  EmbeddingResponse,
+  EmbeddingData,
+  EmbeddingEncodingFormat,
+
+  // Moderation types
+  ModerationCategory,
+  ModerationRequest,
+  ModerationResult,
+  ModerationResponse,
 
   // Image types
   ImageGenerationRequest,
   ImageGenerationResponse,
   ImageData,
+  ImageJob,
+  ImageJobStatus,
+  SerializedImageJob,
+
+  // Batch types
+  Batch,
+  BatchStatus,
+  BatchRequestInput,
+  BatchResult,
+  BatchResultError,
 
   // Client types
   LunabyClientOptions,
   RequestOptions,
+  TimeoutOptions,
+  TimeoutPhase,
   FetchFunction,
+  Middleware,
+  MiddlewareRequest,
+  RequestBody,
+  RetryPolicy,
+  BackoffStrategy,
+  CircuitBreakerOptions,
+  CircuitState,
+  RequestPriority,
+  SchedulerOptions,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  RequestCacheOptions,
 
   // Error types
   LunabyErrorDetails,
@@ -54,4 +198,5 @@ export type {
   // Stream types
   StreamEvent,
   StreamOptions,
+  StreamResumeOptions,
 } from './types.js';
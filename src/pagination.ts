@@ -0,0 +1,46 @@
+import type { PaginatedResponse } from './types.js';
+import type { ChatResponse } from './streaming.js';
+
+/**
+ * One page of a cursor-paginated list. Iterating it with `for await` walks
+ * every item across all following pages.
+ */
+export class Page<T extends { id: string }> implements PaginatedResponse<T>, AsyncIterable<T> {
+  readonly data: T[];
+  readonly has_more: boolean;
+  readonly first_id?: string;
+  readonly last_id?: string;
+
+  constructor(
+    readonly response: ChatResponse<PaginatedResponse<T>>,
+    private readonly fetchPage: (after: string) => Promise<Page<T>>
+  ) {
+    const body = response.data;
+    this.data = body.data || [];
+    this.has_more = !!body.has_more;
+    this.first_id = body.first_id ?? this.data[0]?.id;
+    this.last_id = body.last_id ?? this.data[this.data.length - 1]?.id;
+  }
+
+  hasNextPage(): boolean {
+    return this.has_more && this.last_id !== undefined;
+  }
+
+  async getNextPage(): Promise<Page<T> | undefined> {
+    return this.hasNextPage() ? this.fetchPage(this.last_id!) : undefined;
+  }
+
+  async *iterPages(): AsyncGenerator<Page<T>, void, unknown> {
+    let page: Page<T> | undefined = this;
+    while (page) {
+      yield page;
+      page = await page.getNextPage();
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, unknown> {
+    for await (const page of this.iterPages()) {
+      yield* page.data;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { MockTransport, chatCompletion } from '../testing/index.js';
+import type { BatchRequestInput, BatchResult, LunabyClientOptions } from '../types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'lunaby-batch-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function setup(options: LunabyClientOptions = {}) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, maxRetries: 0, ...options });
+  return { transport, client };
+}
+
+function line(custom_id: string, content: string = custom_id): BatchRequestInput {
+  return { custom_id, messages: [{ role: 'user', content }] } as BatchRequestInput;
+}
+
+const usage = { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 };
+
+describe('batches.run', () => {
+  it('runs every line, records bad lines inline and sums usage', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(chatCompletion('A', { usage })).queueJSON(chatCompletion('B', { usage }));
+    const output = join(dir, 'results.jsonl');
+
+    const summary = await client.batches.run(
+      [line('a'), { messages: [] } as unknown as BatchRequestInput, line('b'), line('a')],
+      { concurrency: 2, output }
+    );
+
+    const results = (await readFile(output, 'utf8')).trim().split('\n').map(text => JSON.parse(text) as BatchResult);
+    expect(summary).toMatchObject({ total: 4, succeeded: 2, failed: 2, skipped: 0, usage: { total_tokens: 10 } });
+    expect(summary.failures.map(failure => [failure.custom_id, failure.error.message])).toEqual([
+      ['line-2', 'line 2 needs a non-empty string custom_id'],
+      ['a', 'duplicate custom_id "a"'],
+    ]);
+    expect(results.filter(result => result.status === 'succeeded').map(result => result.custom_id).sort()).toEqual(['a', 'b']);
+    expect(transport.requests.every(request => (request.body as { stream: boolean }).stream === false)).toBe(true);
+  });
+
+  it('reads a JSONL file with inline or nested bodies', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('1').queueChatCompletion('2');
+    const input = join(dir, 'requests.jsonl');
+    await writeFile(input, [
+      '{"custom_id": "q1", "messages": [{"role": "user", "content": "one"}]}',
+      '',
+      '{"custom_id": "q2", "body": {"model": "lunaby-pro", "messages": [{"role": "user", "content": "two"}]}}',
+    ].join('\n'));
+
+    const summary = await client.batches.run(input, { concurrency: 1 });
+
+    expect(summary.succeeded).toBe(2);
+    expect(transport.requests[1].body).toMatchObject({ model: 'lunaby-pro', messages: [{ content: 'two' }] });
+  });
+
+  it('resumes from the checkpoint, running only lines that did not succeed', async () => {
+    const { transport, client } = setup();
+    const checkpoint = join(dir, 'batch.checkpoint');
+    transport.queueChatCompletion('A');
+    transport.queueError(400, { error: 'bad_request', message: 'Unsupported' });
+
+    const first = await client.batches.run([line('a'), line('b')], { concurrency: 1, checkpoint });
+    transport.queueChatCompletion('B');
+    const second = await client.batches.run([line('a'), line('b')], { concurrency: 1, checkpoint });
+
+    expect(first).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(second).toMatchObject({ total: 2, succeeded: 1, failed: 0, skipped: 1 });
+    expect(transport.requests.map(request => (request.body as { messages: Array<{ content: string }> }).messages[0].content))
+      .toEqual(['a', 'b', 'b']);
+  });
+
+  it("retries lines with the client's retry policy", async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 0, initialDelay: 1, jitter: 0, retryableStatusCodes: [418] } });
+    transport.queueError(418, { error: 'teapot' }).queueChatCompletion('ok');
+    transport.queueError(503, { error: 'unavailable' });
+    const results: BatchResult[] = [];
+
+    await client.batches.run([line('a'), line('b')], { concurrency: 1, lineRetries: 1, onResult: result => results.push(result) });
+
+    expect(results.map(result => [result.custom_id, result.status, result.attempts])).toEqual([
+      ['a', 'succeeded', 2],
+      ['b', 'failed', 1],
+    ]);
+  });
+
+  it("lets the policy's shouldRetry veto line retries", async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 0, shouldRetry: () => false } });
+    transport.queueError(503, { error: 'unavailable' });
+
+    const summary = await client.batches.run([line('a')], { lineRetries: 3 });
+
+    expect(summary.failures[0].error.status).toBe(503);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('rejects an invalid concurrency', async () => {
+    const { client } = setup();
+
+    await expect(client.batches.run([line('a')], { concurrency: 0 })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('server-side batches', () => {
+  it('uploads the lines as JSONL and reads the results', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON({ id: 'batch_1', object: 'batch', status: 'validating' });
+    transport.queueHandler(() => new Response('{"custom_id":"a","status":"succeeded"}\n{"custom_id":"b","status":"failed"}\n'));
+
+    const { data: batch } = await client.batches.create([line('a'), line('b')], { metadata: { job: 'nightly' } });
+    const results: BatchResult[] = [];
+    for await (const result of client.batches.results(batch.id)) {
+      results.push(result);
+    }
+
+    const form = transport.requests[0].body as FormData;
+    const jsonl = await (form.get('file') as File).text();
+    expect(jsonl.trim().split('\n').map(text => JSON.parse(text).url)).toEqual(['/chat/completions', '/chat/completions']);
+    expect(form.get('metadata')).toBe('{"job":"nightly"}');
+    expect(transport.lastRequest?.path).toBe('/v1/batches/batch_1/results');
+    expect(results.map(result => result.status)).toEqual(['succeeded', 'failed']);
+  });
+});
@@ -0,0 +1,526 @@
+import type {
+  Batch,
+  BatchRequestInput,
+  BatchResult,
+  BatchResultError,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  PaginatedResponse,
+  RequestOptions,
+  TokenUsage,
+} from '../types.js';
+import { ChatResponse } from '../streaming.js';
+import { Page } from '../pagination.js';
+import {
+  AbortError,
+  ConnectionError,
+  LunabyError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '../errors.js';
+import { calculateRetryDelay, type ResolvedRetryPolicy } from '../retry.js';
+import { sleep } from '../concurrency.js';
+import { loadFs } from '../runtime.js';
+import type { Lunaby } from '../client.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_LINE_RETRIES = 2;
+const DEFAULT_COMPLETION_WINDOW = '24h';
+const BATCH_ENDPOINT = '/chat/completions';
+
+/** A JSONL file path (Node.js) or an iterable of request lines */
+export type BatchInput = string | Iterable<BatchRequestInput> | AsyncIterable<BatchRequestInput>;
+
+export interface RunBatchOptions extends RequestOptions {
+  /** Lines in flight at once (default 4) */
+  concurrency?: number;
+  /** Extra attempts for a line that still fails after the client's request retries (default 2) */
+  lineRetries?: number;
+  /** Append each result to this JSONL file as it finishes (Node.js) */
+  output?: string;
+  /** Record finished lines in this file; a rerun skips lines that already succeeded (Node.js) */
+  checkpoint?: string;
+  /** Called with each result as it finishes */
+  onResult?: (result: BatchResult) => void;
+}
+
+export interface BatchSummary {
+  /** Lines read from the input, including skipped ones */
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Lines the checkpoint showed as already succeeded */
+  skipped: number;
+  usage: TokenUsage;
+  failures: Array<{ custom_id: string; error: BatchResultError }>;
+  durationMs: number;
+}
+
+export interface CreateBatchOptions extends RequestOptions {
+  /** How long the server may take (default '24h') */
+  completion_window?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ListBatchesOptions extends RequestOptions {
+  limit?: number;
+  after?: string;
+}
+
+interface BatchLine {
+  custom_id: string;
+  body?: Partial<ChatCompletionRequest>;
+  /** Set when the line cannot be sent */
+  error?: LunabyError;
+}
+
+export class Batches {
+  constructor(private readonly client: Lunaby) { }
+
+  /**
+   * Run chat completion requests from a JSONL file or an iterable, a few at a time.
+   * Failed lines are recorded inline and do not stop the run; aborting the signal does.
+   */
+  async run(input: BatchInput, options: RunBatchOptions = {}): Promise<BatchSummary> {
+    const {
+      concurrency = DEFAULT_CONCURRENCY,
+      lineRetries = DEFAULT_LINE_RETRIES,
+      output,
+      checkpoint,
+      onResult,
+      ...requestOptions
+    } = options;
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer', 'concurrency');
+    }
+
+    const started = Date.now();
+    const summary: BatchSummary = {
+      total: 0,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      failures: [],
+      durationMs: 0,
+    };
+
+    const done = checkpoint ? await readCheckpoint(checkpoint) : new Set<string>();
+    const outputWriter = output ? await openAppender(output) : undefined;
+    const checkpointWriter = checkpoint ? await openAppender(checkpoint) : undefined;
+    const policy = this.client.resolveRetryPolicy(requestOptions.retryPolicy, { maxRetries: lineRetries });
+    const seen = new Set<string>();
+
+    // Lines that cannot be sent stay out of the checkpoint, so a duplicate id does not undo the original
+    const record = async (result: BatchResult, checkpointed = true): Promise<void> => {
+      if (result.status === 'succeeded') {
+        summary.succeeded++;
+        const usage = result.response?.usage;
+        summary.usage.prompt_tokens += usage?.prompt_tokens || 0;
+        summary.usage.completion_tokens += usage?.completion_tokens || 0;
+        summary.usage.total_tokens += usage?.total_tokens || 0;
+      } else {
+        summary.failed++;
+        summary.failures.push({ custom_id: result.custom_id, error: result.error! });
+      }
+
+      onResult?.(result);
+
+      // The checkpoint only names lines whose result is already in the output
+      await outputWriter?.write(`${JSON.stringify(result)}\n`);
+      if (checkpointed) {
+        await checkpointWriter?.write(`${JSON.stringify({ custom_id: result.custom_id, status: result.status })}\n`);
+      }
+    };
+
+    const iterator = readBatchLines(input)[Symbol.asyncIterator]();
+
+    const worker = async (): Promise<void> => {
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        const line = next.value;
+        summary.total++;
+
+        if (!line.error && seen.has(line.custom_id)) {
+          line.error = new ValidationError(`duplicate custom_id "${line.custom_id}"`, 'custom_id');
+        }
+        seen.add(line.custom_id);
+
+        if (line.error) {
+          await record({ custom_id: line.custom_id, status: 'failed', attempts: 0, error: toResultError(line.error) }, false);
+          continue;
+        }
+
+        if (done.has(line.custom_id)) {
+          summary.skipped++;
+          continue;
+        }
+
+        await record(await this.runLine(line, requestOptions, policy));
+      }
+    };
+
+    const workers = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+    await outputWriter?.close();
+    await checkpointWriter?.close();
+
+    const failure = workers.find((worker): worker is PromiseRejectedResult => worker.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+
+    summary.durationMs = Date.now() - started;
+    return summary;
+  }
+
+  /**
+   * Upload the requests as a server-side batch. Poll it with retrieve() and read
+   * the output with results() once it has completed.
+   */
+  async create(
+    input: BatchInput,
+    options: CreateBatchOptions = {}
+  ): Promise<ChatResponse<Batch>> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      completion_window = DEFAULT_COMPLETION_WINDOW,
+      metadata,
+    } = options;
+
+    let jsonl = '';
+    for await (const line of readBatchLines(input)) {
+      if (line.error) {
+        throw line.error;
+      }
+      jsonl += `${JSON.stringify({ custom_id: line.custom_id, method: 'POST', url: BATCH_ENDPOINT, body: line.body })}\n`;
+    }
+
+    if (!jsonl) {
+      throw new ValidationError('batch input cannot be empty', 'input');
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([jsonl], { type: 'application/jsonl' }), 'batch.jsonl');
+    form.append('endpoint', BATCH_ENDPOINT);
+    form.append('completion_window', completion_window);
+    if (metadata) {
+      form.append('metadata', JSON.stringify(metadata));
+    }
+
+    return this.client.request<Batch>(
+      '/batches',
+      {
+        method: 'POST',
+        body: form,
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+      }
+    );
+  }
+
+  async retrieve(id: string, options: RequestOptions = {}): Promise<ChatResponse<Batch>> {
+    this.validateId(id);
+    return this.batchRequest(`/batches/${encodeURIComponent(id)}`, 'GET', options);
+  }
+
+  async cancel(id: string, options: RequestOptions = {}): Promise<ChatResponse<Batch>> {
+    this.validateId(id);
+    return this.batchRequest(`/batches/${encodeURIComponent(id)}/cancel`, 'POST', options);
+  }
+
+  /**
+   * List server-side batches. Iterate the returned page with `for await` to walk all pages.
+   */
+  async list(options: ListBatchesOptions = {}): Promise<Page<Batch>> {
+    const { limit, after, ...requestOptions } = options;
+
+    const query = new URLSearchParams();
+    if (limit !== undefined) query.set('limit', String(limit));
+    if (after) query.set('after', after);
+    const search = query.toString();
+
+    const response = await this.batchRequest<PaginatedResponse<Batch>>(
+      `/batches${search ? `?${search}` : ''}`,
+      'GET',
+      requestOptions
+    );
+
+    return new Page(response, next => this.list({ ...options, after: next }));
+  }
+
+  /**
+   * Results of a completed server-side batch, in the same shape as run() writes
+   */
+  async *results(id: string, options: RequestOptions = {}): AsyncGenerator<BatchResult> {
+    this.validateId(id);
+
+    const { bytes } = await this.client.download(
+      `${this.client.baseURL}/batches/${encodeURIComponent(id)}/results`,
+      options
+    );
+
+    for (const line of new TextDecoder().decode(bytes).split(/\r?\n/)) {
+      if (line.trim()) {
+        yield JSON.parse(line) as BatchResult;
+      }
+    }
+  }
+
+  private async runLine(
+    line: BatchLine,
+    options: RequestOptions,
+    policy: ResolvedRetryPolicy
+  ): Promise<BatchResult> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+    } = options;
+
+    const body = { model: this.client.defaultModel, ...line.body, stream: false };
+    let previousDelay = policy.initialDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.request<ChatCompletionResponse>(
+          BATCH_ENDPOINT,
+          {
+            method: 'POST',
+            body: JSON.stringify(body),
+            signal,
+            timeout,
+            connectTimeout,
+            idleTimeout,
+            totalTimeout,
+            headers,
+            retryPolicy,
+            priority,
+            cache,
+          }
+        );
+
+        return { custom_id: line.custom_id, status: 'succeeded', attempts: attempt + 1, response: response.data };
+      } catch (error) {
+        // An abort stops the whole run; the checkpoint keeps what finished
+        if (error instanceof AbortError || signal?.aborted) {
+          throw error;
+        }
+
+        if (attempt >= policy.maxRetries || !shouldRetryLine(error, attempt, policy)) {
+          return { custom_id: line.custom_id, status: 'failed', attempts: attempt + 1, error: toResultError(error) };
+        }
+
+        previousDelay = lineRetryDelay(error, attempt, previousDelay, policy);
+        await sleep(previousDelay, signal);
+      }
+    }
+  }
+
+  private async batchRequest<T = Batch>(
+    path: string,
+    method: 'GET' | 'POST',
+    options: RequestOptions
+  ): Promise<ChatResponse<T>> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+    } = options;
+
+    return this.client.request<T>(
+      path,
+      {
+        method,
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+      }
+    );
+  }
+
+  private validateId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('id must be a non-empty string', 'id');
+    }
+  }
+}
+
+/**
+ * Read request lines from a JSONL file or an iterable. Bad lines are returned
+ * with an error instead of throwing, so a run can record them and go on.
+ */
+async function* readBatchLines(input: BatchInput): AsyncGenerator<BatchLine> {
+  let number = 0;
+
+  for await (const raw of typeof input === 'string' ? readJSONLFile(input) : input) {
+    number++;
+    let item: unknown = raw;
+
+    if (typeof raw === 'string') {
+      try {
+        item = JSON.parse(raw);
+      } catch {
+        yield { custom_id: `line-${number}`, error: new ValidationError(`line ${number} is not valid JSON`, 'input') };
+        continue;
+      }
+    }
+
+    yield toBatchLine(item, number);
+  }
+}
+
+async function* readJSONLFile(path: string): AsyncGenerator<string> {
+  const { readFile } = await loadFs();
+  const text = await readFile(path, 'utf8');
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim()) {
+      yield line;
+    }
+  }
+}
+
+function toBatchLine(item: unknown, number: number): BatchLine {
+  const line = item as Partial<BatchRequestInput> | null;
+  const customId = line && typeof line === 'object' ? line.custom_id : undefined;
+
+  if (typeof customId !== 'string' || !customId) {
+    return {
+      custom_id: `line-${number}`,
+      error: new ValidationError(`line ${number} needs a non-empty string custom_id`, 'custom_id'),
+    };
+  }
+
+  let body: Partial<ChatCompletionRequest>;
+  if ('body' in line! && line.body && typeof line.body === 'object') {
+    body = line.body;
+  } else {
+    const { custom_id: _customId, ...rest } = line as { custom_id: string } & Partial<ChatCompletionRequest>;
+    body = rest;
+  }
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return {
+      custom_id: customId,
+      error: new ValidationError(`line ${number} needs a non-empty messages array`, 'messages'),
+    };
+  }
+
+  return { custom_id: customId, body };
+}
+
+/**
+ * Custom ids of lines that already succeeded; later entries win
+ */
+async function readCheckpoint(path: string): Promise<Set<string>> {
+  const { readFile } = await loadFs();
+  const done = new Set<string>();
+  let text: string;
+
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return done;
+    }
+    throw error;
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    try {
+      const entry = JSON.parse(line) as Pick<BatchResult, 'custom_id' | 'status'>;
+      if (entry.status === 'succeeded') {
+        done.add(entry.custom_id);
+      } else {
+        done.delete(entry.custom_id);
+      }
+    } catch {
+      // A line cut short by a crash; that request simply runs again
+    }
+  }
+
+  return done;
+}
+
+/**
+ * Append to a file with writes applied in call order
+ */
+async function openAppender(path: string): Promise<{ write(text: string): Promise<void>; close(): Promise<void> }> {
+  const { open } = await loadFs();
+  const handle = await open(path, 'a');
+  let queue = Promise.resolve();
+
+  return {
+    write(text) {
+      queue = queue.then(async () => {
+        await handle.write(text);
+      });
+      return queue;
+    },
+    async close() {
+      await queue.catch(() => undefined);
+      await handle.close();
+    },
+  };
+}
+
+/**
+ * Ask the policy's shouldRetry, falling back to retrying connection failures,
+ * timeouts and the policy's retryable status codes
+ */
+function shouldRetryLine(error: unknown, attempt: number, policy: ResolvedRetryPolicy): boolean {
+  const fallback = error instanceof TimeoutError
+    || error instanceof ConnectionError
+    || (error instanceof LunabyError && error.status !== undefined && policy.retryableStatusCodes.includes(error.status));
+
+  return error instanceof Error ? policy.shouldRetry?.(error, attempt) ?? fallback : fallback;
+}
+
+/**
+ * Backoff from the policy, or the server's Retry-After on a rate limit when the policy respects it
+ */
+function lineRetryDelay(error: unknown, attempt: number, previousDelay: number, policy: ResolvedRetryPolicy): number {
+  if (policy.respectRetryAfter && error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, policy.maxDelay);
+  }
+  return calculateRetryDelay(policy, attempt, previousDelay);
+}
+
+function toResultError(error: unknown): BatchResultError {
+  if (error instanceof LunabyError) {
+    return { message: error.message, type: error.type, code: error.code, status: error.status };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
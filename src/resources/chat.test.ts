@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { imageURLPart, textPart } from '../content.js';
+import { LunabyError, SchemaValidationError, ValidationError } from '../errors.js';
+import { MockTransport, chatCompletion, toolCallChunks } from '../testing/index.js';
+import type { ChatCompletionResponse, ChatMessage, JSONSchema, ToolCall } from '../types.js';
+import type { RunnableTool } from './chat.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hi' }];
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, maxRetries: 0 });
+  return { transport, client };
+}
+
+function toolCallCompletion(toolCalls: ToolCall[]): Partial<ChatCompletionResponse> {
+  return chatCompletion('', {
+    choices: [{ index: 0, message: { role: 'assistant', content: null as unknown as string, tool_calls: toolCalls }, finish_reason: 'tool_calls' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  });
+}
+
+function tool(name: string, handler: RunnableTool['handler']): RunnableTool {
+  return {
+    definition: { type: 'function', function: { name, parameters: { type: 'object', properties: {} } } },
+    handler,
+  };
+}
+
+describe('chat.runTools', () => {
+  it('runs handlers, sends their results back and returns the final answer', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion(toolCallCompletion([
+      { id: 'call_1', type: 'function', function: { name: 'add', arguments: '{"a":1,"b":2}' } },
+      { id: 'call_2', type: 'function', function: { name: 'echo', arguments: '{"text":"x"}' } },
+    ]));
+    transport.queueChatCompletion(chatCompletion('1 + 2 = 3', {
+      usage: { prompt_tokens: 20, completion_tokens: 6, total_tokens: 26 },
+    }));
+
+    const result = await client.chat.runTools(messages, {
+      tools: [
+        tool('add', ({ a, b }) => ({ sum: a + b })),
+        tool('echo', ({ text }) => text),
+      ],
+    });
+
+    expect(result.message.content).toBe('1 + 2 = 3');
+    expect(result.iterations).toBe(2);
+    expect(result.usage).toEqual({ prompt_tokens: 30, completion_tokens: 11, total_tokens: 41 });
+    expect(transport.lastRequest?.body).toMatchObject({
+      messages: [
+        ...messages,
+        { role: 'assistant', content: '' },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"sum":3}' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'x' },
+      ],
+    });
+  });
+
+  it('reports handler errors and unknown tools to the model', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion(toolCallCompletion([
+      { id: 'call_1', type: 'function', function: { name: 'fail', arguments: '{}' } },
+      { id: 'call_2', type: 'function', function: { name: 'missing', arguments: '{}' } },
+    ]));
+    transport.queueChatCompletion('sorry');
+
+    const errors: string[] = [];
+    await client.chat.runTools(messages, {
+      tools: [tool('fail', () => { throw new Error('boom'); })],
+      onToolResult: (_toolCall, _result, error) => errors.push(error?.message ?? ''),
+    });
+
+    expect(errors).toEqual(['boom', 'Unknown tool: missing']);
+    expect((transport.lastRequest?.body as { messages: ChatMessage[] }).messages.slice(-2)).toEqual([
+      { role: 'tool', tool_call_id: 'call_1', content: 'Error: boom' },
+      { role: 'tool', tool_call_id: 'call_2', content: 'Error: Unknown tool: missing' },
+    ]);
+  });
+
+  it('assembles streamed tool calls in streaming mode', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(toolCallChunks([
+      { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"id":42}' } },
+    ], 3));
+    transport.queueStream(['found ', 'it']);
+
+    const content: string[] = [];
+    const result = await client.chat.runTools(messages, {
+      tools: [tool('lookup', ({ id }) => `item ${id}`)],
+      stream: true,
+      onContent: delta => content.push(delta),
+    });
+
+    expect(result.message.content).toBe('found it');
+    expect(content).toEqual(['found ', 'it']);
+    expect(result.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'item 42' });
+  });
+
+  it('throws once maxIterations is reached', async () => {
+    const { transport, client } = setup();
+    const call = { id: 'call_1', type: 'function' as const, function: { name: 'again', arguments: '{}' } };
+    transport.queueChatCompletion(toolCallCompletion([call]));
+    transport.queueChatCompletion(toolCallCompletion([call]));
+
+    const error = await client.chat.runTools(messages, {
+      tools: [tool('again', () => 'ok')],
+      maxIterations: 2,
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LunabyError);
+    expect(error.code).toBe('max_iterations_exceeded');
+    expect(transport.requests).toHaveLength(2);
+  });
+});
+
+describe('multimodal messages', () => {
+  it('sends content part arrays as-is and accumulates text from streams', async () => {
+    const { transport, client } = setup();
+    const content = [textPart('What is this?'), imageURLPart('https://example.com/cat.png', 'low')];
+    transport.queueStream(['A ', 'cat']);
+
+    const stream = await client.chat.createStream([{ role: 'user', content }], { model: 'lunaby-vision' });
+
+    expect(await stream.toContent()).toBe('A cat');
+    expect(transport.lastRequest?.body).toMatchObject({ messages: [{ role: 'user', content }] });
+  });
+
+  it('rejects empty content arrays and unknown parts before sending', async () => {
+    const { transport, client } = setup();
+
+    await expect(client.chat.create([{ role: 'user', content: [] }])).rejects.toThrow('messages[0].content array cannot be empty');
+    await expect(client.chat.create([
+      { role: 'user', content: [textPart('hi'), { type: 'audio', audio: 'x' } as never] },
+    ])).rejects.toThrow(ValidationError);
+    await expect(client.chat.create([
+      { role: 'user', content: [imageURLPart('https://example.com/x.png', 'huge' as never)] },
+    ])).rejects.toThrow('messages[0].content[0] must be a text, image_url, or image_base64 part');
+    expect(transport.requests).toHaveLength(0);
+  });
+});
+
+describe('chat.parse', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: { label: { type: 'string', enum: ['spam', 'ham'] } },
+    required: ['label'],
+  };
+
+  it('sends a json_schema response_format and returns the parsed value', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('```json\n{"label":"spam"}\n```');
+
+    const result = await client.chat.parse<{ label: string }>(messages, { schema, name: 'label' });
+
+    expect(result.parsed).toEqual({ label: 'spam' });
+    expect(result.attempts).toBe(1);
+    expect(transport.lastRequest?.body).toMatchObject({
+      response_format: { type: 'json_schema', json_schema: { name: 'label', schema, strict: true } },
+    });
+  });
+
+  it('re-asks with the violations and throws once retries run out', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('{"label":"eggs"}');
+    transport.queueChatCompletion('not json');
+
+    const error = await client.chat.parse(messages, { schema, validationRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.content).toBe('not json');
+    expect(error.violations[0].message).toMatch(/^is not valid JSON/);
+    expect((transport.lastRequest?.body as { messages: ChatMessage[] }).messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"label":"eggs"}' },
+      {
+        role: 'user',
+        content: 'Your previous response did not match the required JSON schema:\n- $.label must be one of "spam", "ham"\nRespond again with only the corrected JSON.',
+      },
+    ]);
+  });
+
+  it('surfaces an invalid schema without spending a re-ask', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('{"label":"spam"}');
+
+    const error = await client.chat.parse(messages, {
+      schema: { type: 'object', properties: { label: { type: 'string', pattern: '(' } } },
+      validationRetries: 2,
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).not.toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toMatch(/not a valid regular expression/);
+    expect(transport.requests).toHaveLength(1);
+  });
+});
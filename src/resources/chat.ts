@@ -3,12 +3,23 @@ import type {
   ChatCompletionResponse,
   ChatCompletionChunk,
   ChatMessage,
+  JSONSchema,
   Model,
+  PreflightMode,
   RequestOptions,
+  ResponseFormat,
+  SchemaViolation,
+  StreamResumeOptions,
+  TokenUsage,
+  ToolCall,
   ToolDefinition,
 } from '../types.js';
-import { ChatStream, ChatResponse } from '../streaming.js';
-import { ValidationError } from '../errors.js';
+import { ChatStream, ChatResponse, type StreamResumer } from '../streaming.js';
+import { APIError, ContentFilterError, LunabyError, SchemaValidationError, ValidationError } from '../errors.js';
+import { contentToText, isContentPart } from '../content.js';
+import { validateJSONSchema } from '../schema.js';
+import { estimateMessageTokens, estimateTokens, getModelLimits } from '../tokenizer.js';
+import { sleep } from '../concurrency.js';
 import type { Lunaby } from '../client.js';
 
 export interface CreateChatCompletionOptions extends RequestOptions {
@@ -22,6 +33,54 @@ export interface CreateChatCompletionOptions extends RequestOptions {
   user?: string;
   tools?: ToolDefinition[];
   tool_choice?: 'auto' | 'none';
+  response_format?: ResponseFormat;
+  /** Overrides the client's preflight mode for this request */
+  preflight?: PreflightMode;
+  /** Overrides the client's throwOnContentFilter setting for this request */
+  throwOnContentFilter?: boolean;
+  /** Streams only: reconnect when the connection drops mid-generation */
+  resume?: boolean | StreamResumeOptions;
+}
+
+const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+const DEFAULT_MAX_RECONNECTS = 3;
+const DEFAULT_RECONNECT_DELAY = 500;
+
+export interface RunnableTool<TArgs = any> {
+  definition: ToolDefinition;
+  handler: (args: TArgs, toolCall: ToolCall) => unknown | Promise<unknown>;
+}
+
+export interface RunToolsOptions extends Omit<CreateChatCompletionOptions, 'tools'> {
+  tools: RunnableTool[];
+  maxIterations?: number;
+  stream?: boolean;
+  onContent?: (content: string, accumulated: string) => void;
+  onMessage?: (message: ChatMessage) => void;
+  onToolCall?: (toolCall: ToolCall) => void;
+  onToolResult?: (toolCall: ToolCall, result: string, error?: Error) => void;
+}
+
+export interface RunToolsResult {
+  message: ChatMessage;
+  messages: ChatMessage[];
+  iterations: number;
+  usage: TokenUsage;
+}
+
+export interface ParseChatCompletionOptions extends Omit<CreateChatCompletionOptions, 'response_format'> {
+  schema: JSONSchema;
+  name?: string;
+  description?: string;
+  strict?: boolean;
+  validationRetries?: number;
+}
+
+export interface ParsedChatCompletion<T> {
+  parsed: T;
+  message: ChatMessage;
+  response: ChatResponse<ChatCompletionResponse>;
+  attempts: number;
 }
 
 export class ChatCompletions {
@@ -33,7 +92,21 @@ export class ChatCompletions {
   ): Promise<ChatResponse<ChatCompletionResponse>> {
     this.validateMessages(messages);
 
-    const { signal, timeout, headers, ...params } = options;
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      preflight,
+      cache,
+      throwOnContentFilter = this.client.throwOnContentFilter,
+      resume,
+      ...params
+    } = options;
 
     const body: ChatCompletionRequest = {
       model: params.model || this.client.defaultModel,
@@ -42,6 +115,9 @@ export class ChatCompletions {
       ...params,
     };
 
+    this.preflight(body, preflight ?? this.client.preflight);
+    this.checkCapabilities(body);
+
     const response = await this.client.request<ChatCompletionResponse>(
       '/chat/completions',
       {
@@ -49,10 +125,20 @@ export class ChatCompletions {
         body: JSON.stringify(body),
         signal,
         timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
         headers,
+        retryPolicy,
+        priority,
+        cache: cache ?? isDeterministic(body),
       }
     );
 
+    if (throwOnContentFilter && response.data.choices?.some(choice => choice.finish_reason === 'content_filter')) {
+      throw new ContentFilterError('Completion was stopped by the content filter');
+    }
+
     return response;
   }
 
@@ -62,7 +148,21 @@ export class ChatCompletions {
   ): Promise<ChatStream> {
     this.validateMessages(messages);
 
-    const { signal, timeout, headers, ...params } = options;
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      preflight,
+      cache,
+      throwOnContentFilter = this.client.throwOnContentFilter,
+      resume,
+      ...params
+    } = options;
 
     const body: ChatCompletionRequest = {
       model: params.model || this.client.defaultModel,
@@ -71,6 +171,19 @@ export class ChatCompletions {
       ...params,
     };
 
+    this.preflight(body, preflight ?? this.client.preflight);
+    this.checkCapabilities(body);
+
+    const responseCache = (cache ?? isDeterministic(body)) ? this.client.cache : undefined;
+    const cacheKey = await responseCache?.key('/chat/completions', body, this.client);
+
+    if (responseCache && cacheKey) {
+      const entry = await responseCache.get<ChatCompletionResponse>(cacheKey);
+      if (entry) {
+        return ChatStream.fromCompletion(entry.data, true, { throwOnContentFilter });
+      }
+    }
+
     const { stream, abortController } = await this.client.requestStream(
       '/chat/completions',
       {
@@ -78,11 +191,90 @@ export class ChatCompletions {
         body: JSON.stringify(body),
         signal,
         timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
         headers,
+        retryPolicy,
+        priority,
       }
     );
 
-    return new ChatStream(stream, abortController);
+    const chatStream = new ChatStream(stream, abortController, false, {
+      throwOnContentFilter,
+      resume: resume
+        ? this.createResumer(body, { signal, timeout, connectTimeout, idleTimeout, totalTimeout, headers, retryPolicy, priority }, resume === true ? {} : resume)
+        : undefined,
+    });
+
+    if (responseCache && cacheKey) {
+      const cacheOptions = typeof cache === 'object' ? cache : {};
+      chatStream.onComplete(completed => {
+        responseCache
+          .set(cacheKey, completionFromStream(completed, body.model), new Headers(), 200, cacheOptions)
+          .catch(() => {
+            // A failing cache store must not break the stream
+          });
+      });
+    }
+
+    return chatStream;
+  }
+
+  /**
+   * Reconnect with Last-Event-ID, or continue from the partial reply when the server cannot resume
+   */
+  private createResumer(
+    body: ChatCompletionRequest,
+    requestOptions: RequestOptions,
+    options: StreamResumeOptions
+  ): StreamResumer {
+    const { maxReconnects = DEFAULT_MAX_RECONNECTS, fallback = true } = options;
+    // Once continued, event ids refer to the continuation, not the original generation
+    let continuing = false;
+
+    return async ({ lastEventId, retry, content, toolCalls, reconnects }) => {
+      if (reconnects >= maxReconnects || requestOptions.signal?.aborted) {
+        return null;
+      }
+
+      await sleep(retry ?? DEFAULT_RECONNECT_DELAY * 2 ** reconnects, requestOptions.signal);
+
+      if (!continuing && lastEventId !== undefined) {
+        try {
+          return await this.client.requestStream('/chat/completions', {
+            method: 'POST',
+            body: JSON.stringify(body),
+            ...requestOptions,
+            headers: { ...requestOptions.headers, 'Last-Event-ID': lastEventId },
+          });
+        } catch (error) {
+          // A client error means the server cannot resume this stream
+          if (!(error instanceof APIError) || error.status >= 500) {
+            throw error;
+          }
+        }
+      }
+
+      // Half-streamed tool call arguments cannot be continued reliably
+      if (!fallback || toolCalls.length > 0) {
+        return null;
+      }
+
+      continuing = true;
+      const continuation: ChatCompletionRequest = content
+        ? { ...body, messages: [...body.messages, { role: 'assistant', content }] }
+        : body;
+      if (content && body.max_tokens) {
+        continuation.max_tokens = Math.max(1, body.max_tokens - estimateTokens(content));
+      }
+
+      return this.client.requestStream('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify(continuation),
+        ...requestOptions,
+      });
+    };
   }
 
   async *stream(
@@ -98,6 +290,234 @@ export class ChatCompletions {
     return chatStream.fullContent;
   }
 
+  /**
+   * Request a JSON Schema constrained completion and validate the parsed result
+   */
+  async parse<T = unknown>(
+    messages: ChatMessage[],
+    options: ParseChatCompletionOptions
+  ): Promise<ParsedChatCompletion<T>> {
+    const {
+      schema,
+      name = 'response',
+      description,
+      strict = true,
+      validationRetries = 0,
+      ...requestOptions
+    } = options;
+
+    if (!schema || typeof schema !== 'object') {
+      throw new ValidationError('schema must be a JSON Schema object', 'schema');
+    }
+
+    const createOptions: CreateChatCompletionOptions = {
+      ...requestOptions,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name, description, schema, strict },
+      },
+    };
+
+    const conversation = [...messages];
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.create(conversation, createOptions);
+      const message = response.data.choices[0].message;
+      const content = contentToText(message.content);
+
+      const violations: SchemaViolation[] = [];
+      let parsed: unknown;
+
+      try {
+        parsed = JSON.parse(stripCodeFence(content));
+      } catch (error) {
+        violations.push({ path: '$', message: `is not valid JSON (${(error as Error).message})` });
+      }
+
+      // Outside the try: an invalid schema is the caller's error, not one to re-ask the model about
+      if (violations.length === 0) {
+        violations.push(...validateJSONSchema(parsed, schema));
+      }
+
+      if (violations.length === 0) {
+        return { parsed: parsed as T, message, response, attempts: attempt };
+      }
+
+      if (attempt > validationRetries) {
+        throw new SchemaValidationError('Response did not match the schema', violations, content);
+      }
+
+      // Re-ask with the violations so the model can correct its answer
+      conversation.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response did not match the required JSON schema:\n${
+            violations.map(v => `- ${v.path} ${v.message}`).join('\n')
+          }\nRespond again with only the corrected JSON.`,
+        }
+      );
+    }
+  }
+
+  /**
+   * Run the tool-calling loop until the model answers without requesting tools
+   */
+  async runTools(
+    messages: ChatMessage[],
+    options: RunToolsOptions
+  ): Promise<RunToolsResult> {
+    const {
+      tools,
+      maxIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+      stream = false,
+      onContent,
+      onMessage,
+      onToolCall,
+      onToolResult,
+      ...requestOptions
+    } = options;
+
+    if (!Array.isArray(tools) || tools.length === 0) {
+      throw new ValidationError('tools must be a non-empty array', 'tools');
+    }
+
+    const handlers = new Map(tools.map(tool => [tool.definition.function.name, tool.handler]));
+    const createOptions: CreateChatCompletionOptions = {
+      ...requestOptions,
+      tools: tools.map(tool => tool.definition),
+    };
+
+    const transcript = [...messages];
+    const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      let message: ChatMessage;
+
+      if (stream) {
+        const chatStream = await this.createStream(transcript, createOptions);
+        await chatStream.process({ onContent });
+        message = { role: 'assistant', content: chatStream.fullContent };
+        if (chatStream.toolCalls.length > 0) {
+          message.tool_calls = chatStream.toolCalls;
+        }
+        addUsage(usage, chatStream.usage);
+      } else {
+        const response = await this.create(transcript, createOptions);
+        // Assistant messages carrying tool_calls may come back with null content
+        const { message: responseMessage } = response.data.choices[0];
+        message = { ...responseMessage, content: responseMessage.content ?? '' };
+        addUsage(usage, response.data.usage);
+      }
+
+      transcript.push(message);
+      onMessage?.(message);
+
+      if (!message.tool_calls?.length) {
+        return { message, messages: transcript, iterations: iteration, usage };
+      }
+
+      const results = await Promise.all(
+        message.tool_calls.map(toolCall => {
+          onToolCall?.(toolCall);
+          return this.executeToolCall(toolCall, handlers);
+        })
+      );
+
+      for (let i = 0; i < results.length; i++) {
+        const toolCall = message.tool_calls[i];
+        const { content, error } = results[i];
+        const toolMessage: ChatMessage = { role: 'tool', tool_call_id: toolCall.id, content };
+
+        transcript.push(toolMessage);
+        onToolResult?.(toolCall, content, error);
+        onMessage?.(toolMessage);
+      }
+    }
+
+    throw new LunabyError(
+      `Model did not produce a final answer within ${maxIterations} tool iterations`,
+      { code: 'max_iterations_exceeded', details: { messages: transcript } }
+    );
+  }
+
+  private async executeToolCall(
+    toolCall: ToolCall,
+    handlers: Map<string, RunnableTool['handler']>
+  ): Promise<{ content: string; error?: Error }> {
+    const handler = handlers.get(toolCall.function.name);
+
+    try {
+      if (!handler) {
+        throw new Error(`Unknown tool: ${toolCall.function.name}`);
+      }
+
+      const args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+      const result = await handler(args, toolCall);
+      const content = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+
+      return { content };
+    } catch (error) {
+      // Report the failure to the model so it can recover
+      const err = error instanceof Error ? error : new Error(String(error));
+      return { content: `Error: ${err.message}`, error: err };
+    }
+  }
+
+  /**
+   * Warn when the request uses features the model is known not to support
+   */
+  private checkCapabilities(body: ChatCompletionRequest): void {
+    const { models } = this.client;
+
+    models.checkCapability(body.model, 'chat', 'chat completions');
+
+    if (body.tools?.length) {
+      models.checkCapability(body.model, 'tools', 'tools');
+    }
+
+    const hasImages = body.messages.some(
+      message => Array.isArray(message.content) && message.content.some(part => part.type !== 'text')
+    );
+    if (hasImages) {
+      models.checkCapability(body.model, 'vision', 'image input');
+    }
+  }
+
+  /**
+   * Check the estimated prompt plus max_tokens against the model's context window
+   */
+  private preflight(body: ChatCompletionRequest, mode: PreflightMode): void {
+    const limits = this.client.models.getLimits(body.model) ?? getModelLimits(body.model);
+    if (mode === 'off' || !limits) {
+      return;
+    }
+
+    const { contextWindow } = limits;
+    const promptTokens = estimateMessageTokens(body.messages, body.tools);
+
+    if (promptTokens >= contextWindow) {
+      throw new ValidationError(
+        `Prompt is about ${promptTokens} tokens, which exceeds the ${contextWindow} token context window of ${body.model}`,
+        'messages'
+      );
+    }
+
+    if (body.max_tokens === undefined || promptTokens + body.max_tokens <= contextWindow) {
+      return;
+    }
+
+    if (mode === 'adjust') {
+      body.max_tokens = contextWindow - promptTokens;
+      return;
+    }
+
+    throw new ValidationError(
+      `Prompt (about ${promptTokens} tokens) plus max_tokens (${body.max_tokens}) exceeds the ${contextWindow} token context window of ${body.model}`,
+      'max_tokens'
+    );
+  }
+
   private validateMessages(messages: ChatMessage[]): void {
     if (!Array.isArray(messages)) {
       throw new ValidationError('messages must be an array', 'messages');
@@ -128,12 +548,63 @@ export class ChatCompletions {
         );
       }
 
-      if (typeof msg.content !== 'string') {
+      if (Array.isArray(msg.content)) {
+        if (msg.content.length === 0) {
+          throw new ValidationError(`messages[${i}].content array cannot be empty`, 'messages');
+        }
+
+        const partIndex = msg.content.findIndex(part => !isContentPart(part));
+        if (partIndex !== -1) {
+          throw new ValidationError(
+            `messages[${i}].content[${partIndex}] must be a text, image_url, or image_base64 part`,
+            'messages'
+          );
+        }
+      } else if (typeof msg.content !== 'string') {
         throw new ValidationError(
-          `messages[${i}].content must be a string`,
+          `messages[${i}].content must be a string or an array of content parts`,
           'messages'
         );
       }
     }
   }
 }
+
+/**
+ * Sampled completions differ between calls, so only temperature 0 requests are cached
+ * unless the caller passes `cache`
+ */
+function isDeterministic(body: ChatCompletionRequest): boolean {
+  return body.temperature === 0;
+}
+
+/**
+ * Rebuild a completion from a finished stream so it can be cached
+ */
+function completionFromStream(stream: ChatStream, model: Model): ChatCompletionResponse {
+  const message: ChatMessage = { role: 'assistant', content: stream.fullContent };
+  if (stream.toolCalls.length > 0) {
+    message.tool_calls = stream.toolCalls;
+  }
+
+  return {
+    id: 'chatcmpl-cached',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message, finish_reason: stream.finishReason ?? (message.tool_calls ? 'tool_calls' : 'stop') }],
+    usage: stream.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+function stripCodeFence(content: string): string {
+  const match = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/.exec(content);
+  return match ? match[1] : content;
+}
+
+function addUsage(total: TokenUsage, usage?: TokenUsage): void {
+  if (!usage) return;
+  total.prompt_tokens += usage.prompt_tokens;
+  total.completion_tokens += usage.completion_tokens;
+  total.total_tokens += usage.total_tokens;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { MockTransport } from '../testing/index.js';
+import { decodeEmbedding } from './embeddings.js';
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+  return { transport, client };
+}
+
+function base64Vector(values: number[]): string {
+  return Buffer.from(new Float32Array(values).buffer).toString('base64');
+}
+
+function embeddingResponse(vectors: number[][], tokens: number) {
+  return {
+    object: 'list',
+    model: 'lunaby-embedding',
+    data: vectors.map((vector, index) => ({ object: 'embedding', index, embedding: base64Vector(vector) })),
+    usage: { prompt_tokens: tokens, completion_tokens: 0, total_tokens: tokens },
+  };
+}
+
+describe('Embeddings', () => {
+  it('splits inputs into batches and returns vectors in input order with summed usage', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(embeddingResponse([[1, 0], [0, 1]], 4));
+    transport.queueJSON(embeddingResponse([[0.5, 0.5]], 2));
+
+    const result = await client.embeddings.create(['a', 'b', 'c'], { batchSize: 2, concurrency: 1 });
+
+    expect(transport.requests.map(request => (request.body as { input: string[] }).input)).toEqual([['a', 'b'], ['c']]);
+    expect(transport.requests[0].body).toMatchObject({ model: 'lunaby-embedding', encoding_format: 'base64' });
+    expect(result.embeddings.map(vector => Array.from(vector))).toEqual([[1, 0], [0, 1], [0.5, 0.5]]);
+    expect(result.embeddings[0]).toBeInstanceOf(Float32Array);
+    expect(result.usage).toEqual({ prompt_tokens: 6, completion_tokens: 0, total_tokens: 6 });
+  });
+
+  it('rejects empty inputs before sending', async () => {
+    const { transport, client } = setup();
+
+    await expect(client.embeddings.create([])).rejects.toThrow('input array cannot be empty');
+    await expect(client.embeddings.create(['a', ''])).rejects.toThrow('input[1] must be a non-empty string');
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['batchSize', 0],
+    ['batchSize', -1],
+    ['batchSize', 1.5],
+    ['concurrency', 0],
+    ['concurrency', NaN],
+  ])('rejects %s = %s', async (field, value) => {
+    const { transport, client } = setup();
+
+    const error = await client.embeddings.create(['a'], { [field]: value }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details).toEqual({ field });
+    expect(transport.requests).toHaveLength(0);
+  });
+});
+
+describe('decodeEmbedding', () => {
+  it('decodes float arrays and base64 little-endian float32', () => {
+    expect(Array.from(decodeEmbedding([0.25, -1]))).toEqual([0.25, -1]);
+    expect(Array.from(decodeEmbedding(base64Vector([0.25, -1])))).toEqual([0.25, -1]);
+  });
+});
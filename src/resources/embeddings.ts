@@ -0,0 +1,159 @@
+import type {
+  EmbeddingEncodingFormat,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  Model,
+  RequestOptions,
+  TokenUsage,
+} from '../types.js';
+import { ValidationError } from '../errors.js';
+import { mapConcurrent } from '../concurrency.js';
+import { base64ToBytes } from '../runtime.js';
+import type { Lunaby } from '../client.js';
+
+const DEFAULT_EMBEDDING_MODEL: Model = 'lunaby-embedding';
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+export interface CreateEmbeddingOptions extends RequestOptions {
+  model?: Model;
+  dimensions?: number;
+  encoding_format?: EmbeddingEncodingFormat;
+  user?: string;
+  /** Inputs sent per request when an array is split (default 100) */
+  batchSize?: number;
+  /** Batch requests in flight at once (default 4) */
+  concurrency?: number;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input, in input order */
+  embeddings: Float32Array[];
+  model: string;
+  usage: TokenUsage;
+}
+
+export class Embeddings {
+  constructor(private readonly client: Lunaby) { }
+
+  async create(
+    input: string | string[],
+    options: CreateEmbeddingOptions = {}
+  ): Promise<EmbeddingResult> {
+    this.validateInput(input);
+
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+      batchSize = DEFAULT_BATCH_SIZE,
+      concurrency = DEFAULT_CONCURRENCY,
+      ...params
+    } = options;
+
+    this.validatePositiveInteger(batchSize, 'batchSize');
+    this.validatePositiveInteger(concurrency, 'concurrency');
+
+    const inputs = Array.isArray(input) ? input : [input];
+    const batches: string[][] = [];
+    for (let i = 0; i < inputs.length; i += batchSize) {
+      batches.push(inputs.slice(i, i + batchSize));
+    }
+
+    const responses = await mapConcurrent(batches, concurrency, async batch => {
+      const body: EmbeddingRequest = {
+        model: params.model || DEFAULT_EMBEDDING_MODEL,
+        input: batch,
+        encoding_format: params.encoding_format || 'base64',
+        ...params,
+      };
+
+      const response = await this.client.request<EmbeddingResponse>(
+        '/embeddings',
+        {
+          method: 'POST',
+          body: JSON.stringify(body),
+          signal,
+          timeout,
+          connectTimeout,
+          idleTimeout,
+          totalTimeout,
+          headers,
+          retryPolicy,
+          priority,
+          cache: cache ?? true,
+        }
+      );
+
+      return response.data;
+    });
+
+    const embeddings: Float32Array[] = [];
+    const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    responses.forEach((response, batchIndex) => {
+      const offset = batchIndex * batchSize;
+      for (const item of response.data) {
+        embeddings[offset + item.index] = decodeEmbedding(item.embedding);
+      }
+
+      usage.prompt_tokens += response.usage?.prompt_tokens || 0;
+      usage.completion_tokens += response.usage?.completion_tokens || 0;
+      usage.total_tokens += response.usage?.total_tokens || 0;
+    });
+
+    return {
+      embeddings,
+      model: responses[0]?.model || params.model || DEFAULT_EMBEDDING_MODEL,
+      usage,
+    };
+  }
+
+  private validateInput(input: string | string[]): void {
+    const inputs = Array.isArray(input) ? input : [input];
+
+    if (inputs.length === 0) {
+      throw new ValidationError('input array cannot be empty', 'input');
+    }
+
+    inputs.forEach((item, i) => {
+      if (typeof item !== 'string' || item.length === 0) {
+        throw new ValidationError(
+          Array.isArray(input) ? `input[${i}] must be a non-empty string` : 'input must be a non-empty string',
+          'input'
+        );
+      }
+    });
+  }
+
+  private validatePositiveInteger(value: number, field: string): void {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new ValidationError(`${field} must be a positive integer`, field);
+    }
+  }
+}
+
+/**
+ * Decode a float array or base64 little-endian float32 bytes into a Float32Array
+ */
+export function decodeEmbedding(embedding: number[] | string): Float32Array {
+  if (typeof embedding !== 'string') {
+    return Float32Array.from(embedding);
+  }
+
+  const bytes = base64ToBytes(embedding);
+  const vector = new Float32Array(bytes.byteLength / 4);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = view.getFloat32(i * 4, true);
+  }
+
+  return vector;
+}
@@ -0,0 +1,157 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { MockTransport } from '../testing/index.js';
+import type { LunabyClientOptions } from '../types.js';
+
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+function setup(options: LunabyClientOptions = {}) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, ...options });
+  return { transport, client };
+}
+
+function sentForm(transport: MockTransport, index = transport.requests.length - 1): FormData {
+  return transport.requests[index].body as FormData;
+}
+
+describe('images.edit and createVariation', () => {
+  it('uploads the image and a mask from disk as multipart/form-data', async () => {
+    const { transport, client } = setup();
+    const dir = await mkdtemp(join(tmpdir(), 'lunaby-upload-'));
+    transport.queueImage('ZWRpdA==');
+
+    try {
+      await writeFile(join(dir, 'mask.png'), png);
+      const response = await client.images.edit(png, 'Add a red hat', { mask: join(dir, 'mask.png'), seed: 3 });
+
+      const form = sentForm(transport);
+      const image = form.get('image') as File;
+      const mask = form.get('mask') as File;
+      expect(response.data.data[0].b64_json).toBe('ZWRpdA==');
+      expect(transport.lastRequest?.path).toBe('/v1/images/edits');
+      expect(transport.lastRequest?.headers['content-type']).toBeUndefined();
+      expect([image.name, image.type, image.size]).toEqual(['image.png', 'image/png', png.byteLength]);
+      expect([mask.name, mask.type]).toEqual(['mask.png', 'image/png']);
+      expect(Object.fromEntries(['prompt', 'seed', 'model', 'response_format'].map(key => [key, form.get(key)]))).toEqual({
+        prompt: 'Add a red hat',
+        seed: '3',
+        model: 'lunaby-vision',
+        response_format: 'b64_json',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('buffers streams so a retry sends the same upload', async () => {
+    const { transport, client } = setup({ retryPolicy: { maxRetries: 1, initialDelay: 1, jitter: 0 } });
+    transport.queueError(503, { error: 'unavailable' });
+    transport.queueImage('dmFy');
+    const stream = new Response(png).body!;
+
+    await client.images.createVariation(stream);
+
+    expect(transport.requests.map(request => request.path)).toEqual(['/v1/images/variations', '/v1/images/variations']);
+    const sizes = [0, 1].map(i => (sentForm(transport, i).get('image') as File).size);
+    expect(sizes).toEqual([png.byteLength, png.byteLength]);
+  });
+
+  it('keeps the name of uploaded Files and maps errors like JSON requests', async () => {
+    const { transport, client } = setup({ maxRetries: 0 });
+    transport.queueError(400, { error: 'bad_request', message: 'Image too large' });
+
+    const error = await client.images.createVariation(new File([png], 'photo.png', { type: 'image/png' })).catch(e => e);
+
+    expect((sentForm(transport).get('image') as File).name).toBe('photo.png');
+    expect(error.message).toContain('Image too large');
+  });
+
+  it('validates the image and prompt before uploading', async () => {
+    const { transport, client } = setup();
+
+    await expect(client.images.edit('', 'prompt')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.images.edit(png, '   ')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.images.createVariation(42 as unknown as Uint8Array)).rejects.toThrow('image must be a Blob');
+    expect(transport.requests).toHaveLength(0);
+  });
+});
+
+describe('image output helpers', () => {
+  const webp = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50]);
+
+  it('returns every image, downloading URL results through the client fetch', async () => {
+    const { transport, client } = setup();
+    transport.queueImage({ created: 7, data: [{ b64_json: Buffer.from(png).toString('base64'), revised_prompt: 'a red fox' }, { url: 'https://cdn.example/img/1' }] });
+    transport.queueHandler(() => new Response(webp, { headers: { 'content-type': 'image/webp' } }), { path: '/img/1' });
+
+    const { images, created } = await client.images.generateAll('a fox', { n: 2 });
+
+    expect(created).toBe(7);
+    expect(images.map(image => [image.index, image.mimeType, image.bytes.byteLength])).toEqual([
+      [0, 'image/png', png.byteLength],
+      [1, 'image/webp', webp.byteLength],
+    ]);
+    expect(images[0].revisedPrompt).toBe('a red fox');
+    expect(images[1].url).toBe('https://cdn.example/img/1');
+    expect(transport.lastRequest?.headers.authorization).toBeUndefined();
+  });
+
+  it('saves images with matching extensions and a JSON sidecar', async () => {
+    const { transport, client } = setup();
+    const dir = await mkdtemp(join(tmpdir(), 'lunaby-images-'));
+    transport.queueImage({ created: 7, data: [{ b64_json: Buffer.from(webp).toString('base64'), revised_prompt: 'a red fox' }] });
+
+    try {
+      const [saved] = await client.images.saveTo(join(dir, 'out'), 'a fox', { seed: 42, output_format: 'webp', name: 'fox' });
+
+      expect(saved.path).toBe(join(dir, 'out', 'fox-0.webp'));
+      expect(new Uint8Array(await readFile(saved.path))).toEqual(webp);
+      expect(JSON.parse(await readFile(saved.metadataPath, 'utf8'))).toMatchObject({
+        prompt: 'a fox',
+        revised_prompt: 'a red fox',
+        seed: 42,
+        created: 7,
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('sweeps seeds and aspect ratios in order, saving each cell under its own name', async () => {
+    const { transport, client } = setup();
+    const dir = await mkdtemp(join(tmpdir(), 'lunaby-sweep-'));
+    for (let i = 0; i < 4; i++) {
+      transport.queueImage('aW1n');
+    }
+
+    try {
+      const cells = await client.images.sweep('a fox', { seeds: [1, 2], aspectRatios: ['1:1', '16:9'], saveTo: dir });
+
+      expect(cells.map(cell => [cell.seed, cell.aspect_ratio])).toEqual([[1, '1:1'], [1, '16:9'], [2, '1:1'], [2, '16:9']]);
+      expect(transport.requests.map(request => request.body)).toEqual(expect.arrayContaining([
+        expect.objectContaining({ seed: 2, aspect_ratio: '16:9' }),
+      ]));
+      expect((await readdir(dir)).filter(file => file.endsWith('.json')).sort()).toEqual([
+        'sweep-seed1-16x9-0.json',
+        'sweep-seed1-1x1-0.json',
+        'sweep-seed2-16x9-0.json',
+        'sweep-seed2-1x1-0.json',
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects an empty sweep or an invalid concurrency', async () => {
+    const { transport, client } = setup();
+
+    await expect(client.images.sweep('a fox', { seeds: [] })).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.images.sweep('a fox', { seeds: [1], concurrency: 0 })).rejects.toThrow('concurrency must be a positive integer');
+    expect(transport.requests).toHaveLength(0);
+  });
+});
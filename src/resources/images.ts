@@ -1,15 +1,20 @@
-import { Buffer } from 'node:buffer';
-
 import type {
   ImageGenerationRequest,
   ImageGenerationResponse,
+  ImageJob,
   Model,
   RequestOptions,
   AspectRatio,
   OutputFormat,
+  SerializedImageJob,
 } from '../types.js';
 import { ChatResponse } from '../streaming.js';
-import { ValidationError } from '../errors.js';
+import { LunabyError, ValidationError } from '../errors.js';
+import { detectImageMimeType } from '../content.js';
+import { base64ToBytes, loadFs, randomUUID } from '../runtime.js';
+import { mapConcurrent } from '../concurrency.js';
+import { buildMultipartForm, type Uploadable } from '../uploads.js';
+import { ImageJobHandle } from '../image-jobs.js';
 import type { Lunaby } from '../client.js';
 
 export interface GenerateImageOptions extends RequestOptions {
@@ -24,6 +29,74 @@ export interface GenerateImageOptions extends RequestOptions {
   user?: string;
 }
 
+export interface EditImageOptions extends GenerateImageOptions {
+  /** Transparent areas mark where the image is edited */
+  mask?: Uploadable;
+}
+
+export type CreateImageVariationOptions = Omit<GenerateImageOptions, 'negative_prompt'>;
+
+export interface GeneratedImageBytes {
+  bytes: Uint8Array;
+  mimeType: string;
+  revisedPrompt?: string;
+  usage?: ImageGenerationResponse['usage'];
+}
+
+export interface GeneratedImage extends GeneratedImageBytes {
+  /** Position in the response's data array */
+  index: number;
+  /** Source URL when the server returned `response_format: 'url'` */
+  url?: string;
+}
+
+export interface GeneratedImages {
+  images: GeneratedImage[];
+  created: number;
+  usage?: ImageGenerationResponse['usage'];
+}
+
+export interface SaveImagesOptions extends GenerateImageOptions {
+  /** File name stem; files are written as `<name>-<index>.<ext>` (default `image-<created>`) */
+  name?: string;
+}
+
+export interface SavedImage {
+  path: string;
+  /** JSON sidecar with the prompt, seed and revised prompt */
+  metadataPath: string;
+  image: GeneratedImage;
+}
+
+export interface ImageSweepOptions extends SaveImagesOptions {
+  /** Seeds to run; defaults to the `seed` option */
+  seeds?: number[];
+  /** Aspect ratios to run; defaults to the `aspect_ratio` option */
+  aspectRatios?: AspectRatio[];
+  /** Generations in flight at once (default 2) */
+  concurrency?: number;
+  /** Also write every image and its sidecar to this directory */
+  saveTo?: string;
+}
+
+export interface ImageSweepCell {
+  seed?: number;
+  aspect_ratio?: AspectRatio;
+  images: GeneratedImage[];
+  /** Set when `saveTo` was given */
+  saved?: SavedImage[];
+}
+
+const DEFAULT_DOWNLOAD_CONCURRENCY = 4;
+const DEFAULT_SWEEP_CONCURRENCY = 2;
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  webp: '.webp',
+  gif: '.gif',
+};
+
 export class Images {
   constructor(private readonly client: Lunaby) { }
 
@@ -33,15 +106,28 @@ export class Images {
   ): Promise<ChatResponse<ImageGenerationResponse>> {
     this.validatePrompt(prompt);
 
-    const { signal, timeout, headers, ...params } = options;
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+      ...params
+    } = options;
 
     const body: ImageGenerationRequest = {
       model: params.model || 'lunaby-vision',
       prompt,
       response_format: params.response_format || 'b64_json',
-      ...params,
+      ...params
     };
 
+    this.client.models.checkCapability(body.model || 'lunaby-vision', 'image_generation', 'image generation');
+
     const response = await this.client.request<ImageGenerationResponse>(
       '/images/generations',
       {
@@ -49,17 +135,143 @@ export class Images {
         body: JSON.stringify(body),
         signal,
         timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
         headers,
+        retryPolicy,
+        priority: priority ?? 'low',
+        // Unseeded generations differ between calls, so only seeded ones are cached by default
+        cache: cache ?? body.seed !== undefined,
       }
     );
 
     return response;
   }
 
-  async generateBuffer(
+  /**
+   * Submit a generation as an async job and return a handle to poll it. Use this for
+   * large or multi-image requests that would run past the request timeout.
+   */
+  async createJob(
     prompt: string,
     options: GenerateImageOptions = {}
-  ): Promise<{ buffer: Buffer; revisedPrompt?: string; usage?: ImageGenerationResponse['usage'] }> {
+  ): Promise<ImageJobHandle> {
+    this.validatePrompt(prompt);
+
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+      ...params
+    } = options;
+
+    const body: ImageGenerationRequest = {
+      model: params.model || 'lunaby-vision',
+      prompt,
+      response_format: params.response_format || 'b64_json',
+      ...params
+    };
+
+    this.client.models.checkCapability(body.model || 'lunaby-vision', 'image_generation', 'image generation');
+
+    // One key per call, sent on every retry, so a submit that timed out after the server
+    // accepted it does not start a second job
+    const hasKey = Object.keys(headers ?? {}).some(name => name.toLowerCase() === 'idempotency-key');
+    const jobHeaders = hasKey ? headers : { 'Idempotency-Key': await randomUUID(), ...headers };
+
+    const response = await this.client.request<ImageJob>(
+      '/images/jobs',
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers: jobHeaders,
+        retryPolicy,
+        priority: priority ?? 'low',
+      }
+    );
+
+    return new ImageJobHandle(response, this);
+  }
+
+  /**
+   * Get a handle to an existing job, e.g. one serialized with JSON.stringify() in another process
+   */
+  async retrieveJob(
+    job: string | SerializedImageJob,
+    options: RequestOptions = {}
+  ): Promise<ImageJobHandle> {
+    const id = typeof job === 'string' ? job : job?.id;
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('job id must be a non-empty string', 'id');
+    }
+
+    return new ImageJobHandle(await this.pollJob(id, options), this);
+  }
+
+  async cancelJob(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<ChatResponse<ImageJob>> {
+    return this.jobRequest(`/images/jobs/${encodeURIComponent(id)}/cancel`, 'POST', options);
+  }
+
+  /**
+   * Current state of a job, used by ImageJobHandle
+   * @internal
+   */
+  async pollJob(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<ChatResponse<ImageJob>> {
+    return this.jobRequest(`/images/jobs/${encodeURIComponent(id)}`, 'GET', options);
+  }
+
+  /**
+   * Edit an image from a prompt, optionally limited to the transparent area of a mask.
+   * Uploads are sent as multipart/form-data and are not cached.
+   */
+  async edit(
+    image: Uploadable,
+    prompt: string,
+    options: EditImageOptions = {}
+  ): Promise<ChatResponse<ImageGenerationResponse>> {
+    this.validateImage(image, 'image');
+    this.validatePrompt(prompt);
+
+    const { mask, ...rest } = options;
+    return this.upload('/images/edits', { image, mask }, { ...rest, prompt });
+  }
+
+  /**
+   * Create variations of an image
+   */
+  async createVariation(
+    image: Uploadable,
+    options: CreateImageVariationOptions = {}
+  ): Promise<ChatResponse<ImageGenerationResponse>> {
+    this.validateImage(image, 'image');
+    return this.upload('/images/variations', { image }, options);
+  }
+
+  /**
+   * Generate one image and return its bytes. Works on every runtime.
+   */
+  async generateBytes(
+    prompt: string,
+    options: GenerateImageOptions = {}
+  ): Promise<GeneratedImageBytes> {
     const response = await this.generate(prompt, {
       ...options,
       response_format: 'b64_json',
@@ -71,15 +283,263 @@ export class Images {
       throw new Error('No image data received from API');
     }
 
-    const buffer = Buffer.from(imageData.b64_json, 'base64');
+    const bytes = base64ToBytes(imageData.b64_json);
 
     return {
-      buffer,
+      bytes,
+      mimeType: detectImageMimeType(bytes) || `image/${options.output_format || 'png'}`,
       revisedPrompt: imageData.revised_prompt,
       usage: response.data.usage,
     };
   }
 
+  /**
+   * Generate and return every image as bytes. URL results are downloaded through the client's fetch.
+   */
+  async generateAll(
+    prompt: string,
+    options: GenerateImageOptions = {}
+  ): Promise<GeneratedImages> {
+    const response = await this.generate(prompt, options);
+    const { signal, timeout, connectTimeout, idleTimeout, totalTimeout, retryPolicy } = options;
+
+    const images = await mapConcurrent(response.data.data, DEFAULT_DOWNLOAD_CONCURRENCY, async (imageData, index) => {
+      let bytes: Uint8Array;
+      let contentType: string | null = null;
+
+      if (imageData.b64_json) {
+        bytes = base64ToBytes(imageData.b64_json);
+      } else if (imageData.url) {
+        ({ bytes, contentType } = await this.client.download(imageData.url, {
+          signal,
+          timeout,
+          connectTimeout,
+          idleTimeout,
+          totalTimeout,
+          retryPolicy,
+        }));
+      } else {
+        throw new LunabyError(`No image data received from API for image ${index}`);
+      }
+
+      return {
+        index,
+        bytes,
+        mimeType: detectImageMimeType(bytes) || contentType?.split(';')[0] || `image/${options.output_format || 'png'}`,
+        revisedPrompt: imageData.revised_prompt,
+        url: imageData.url,
+      };
+    });
+
+    return { images, created: response.data.created, usage: response.data.usage };
+  }
+
+  /**
+   * Generate images and write them to a directory, each with a JSON sidecar
+   * holding the prompt, seed and revised prompt. Node.js only.
+   */
+  async saveTo(
+    dir: string,
+    prompt: string,
+    options: SaveImagesOptions = {}
+  ): Promise<SavedImage[]> {
+    const { name, ...generateOptions } = options;
+    const { images, created } = await this.generateAll(prompt, generateOptions);
+    const { mkdir, writeFile } = await loadFs();
+
+    const base = `${dir.replace(/[\\/]+$/, '')}/${name || `image-${created}`}`;
+    await mkdir(dir, { recursive: true });
+
+    return Promise.all(images.map(async image => {
+      const extension = FORMAT_EXTENSIONS[options.output_format || image.mimeType.replace('image/', '')] || '.png';
+      const path = `${base}-${image.index}${extension}`;
+      const metadataPath = `${base}-${image.index}.json`;
+
+      const metadata = {
+        prompt,
+        revised_prompt: image.revisedPrompt ?? null,
+        seed: options.seed ?? null,
+        model: options.model || 'lunaby-vision',
+        aspect_ratio: options.aspect_ratio ?? null,
+        negative_prompt: options.negative_prompt ?? null,
+        created,
+        index: image.index,
+        url: image.url ?? null,
+      };
+
+      await writeFile(path, image.bytes);
+      await writeFile(metadataPath, `${JSON.stringify(metadata, null, 2)}\n`);
+
+      return { path, metadataPath, image };
+    }));
+  }
+
+  /**
+   * Run one prompt across every combination of seeds and aspect ratios, a few at a time.
+   * Cells are returned in order: seeds outer, aspect ratios inner.
+   */
+  async sweep(
+    prompt: string,
+    options: ImageSweepOptions = {}
+  ): Promise<ImageSweepCell[]> {
+    this.validatePrompt(prompt);
+
+    const {
+      seeds = [options.seed],
+      aspectRatios = [options.aspect_ratio],
+      concurrency = DEFAULT_SWEEP_CONCURRENCY,
+      saveTo,
+      name,
+      ...generateOptions
+    } = options;
+
+    if (seeds.length === 0 || aspectRatios.length === 0) {
+      throw new ValidationError('seeds and aspectRatios cannot be empty', seeds.length === 0 ? 'seeds' : 'aspectRatios');
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer', 'concurrency');
+    }
+
+    const cells = seeds.flatMap(seed => aspectRatios.map(aspect_ratio => ({ seed, aspect_ratio })));
+
+    return mapConcurrent(cells, concurrency, async ({ seed, aspect_ratio }) => {
+      const cellOptions: GenerateImageOptions = { ...generateOptions, seed, aspect_ratio };
+
+      if (!saveTo) {
+        const { images } = await this.generateAll(prompt, cellOptions);
+        return { seed, aspect_ratio, images };
+      }
+
+      const label = [
+        name || 'sweep',
+        seed !== undefined && `seed${seed}`,
+        aspect_ratio && aspect_ratio.replace(':', 'x'),
+      ].filter(Boolean).join('-');
+      const saved = await this.saveTo(saveTo, prompt, { ...cellOptions, name: label });
+
+      return { seed, aspect_ratio, images: saved.map(item => item.image), saved };
+    });
+  }
+
+  /**
+   * Generate one image as a Blob, e.g. for `URL.createObjectURL()` or a FormData upload
+   */
+  async generateBlob(
+    prompt: string,
+    options: GenerateImageOptions = {}
+  ): Promise<{ blob: Blob; revisedPrompt?: string; usage?: ImageGenerationResponse['usage'] }> {
+    const { bytes, mimeType, revisedPrompt, usage } = await this.generateBytes(prompt, options);
+
+    return {
+      blob: new Blob([bytes as BlobPart], { type: mimeType }),
+      revisedPrompt,
+      usage,
+    };
+  }
+
+  /**
+   * Generate one image as a Node.js Buffer. Use generateBytes() or generateBlob() on other runtimes.
+   */
+  async generateBuffer(
+    prompt: string,
+    options: GenerateImageOptions = {}
+  ): Promise<{ buffer: Buffer; revisedPrompt?: string; usage?: ImageGenerationResponse['usage'] }> {
+    if (typeof Buffer === 'undefined') {
+      throw new LunabyError('generateBuffer() needs Node.js Buffer; use generateBytes() or generateBlob() instead');
+    }
+
+    const { bytes, revisedPrompt, usage } = await this.generateBytes(prompt, options);
+
+    return {
+      buffer: Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+      revisedPrompt,
+      usage,
+    };
+  }
+
+  private async upload(
+    path: string,
+    files: Record<string, Uploadable | undefined>,
+    options: GenerateImageOptions & { prompt?: string }
+  ): Promise<ChatResponse<ImageGenerationResponse>> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+      ...params
+    } = options;
+
+    const model = params.model || 'lunaby-vision';
+    this.client.models.checkCapability(model, 'image_generation', 'image editing');
+
+    const form = await buildMultipartForm(files, {
+      ...params,
+      model,
+      response_format: params.response_format || 'b64_json',
+    });
+
+    return this.client.request<ImageGenerationResponse>(
+      path,
+      {
+        method: 'POST',
+        body: form,
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority: priority ?? 'low',
+      }
+    );
+  }
+
+  private async jobRequest(
+    path: string,
+    method: 'GET' | 'POST',
+    options: RequestOptions
+  ): Promise<ChatResponse<ImageJob>> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+    } = options;
+
+    return this.client.request<ImageJob>(
+      path,
+      {
+        method,
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+      }
+    );
+  }
+
+  private validateImage(image: Uploadable, field: string): void {
+    if (image === undefined || image === null || image === '') {
+      throw new ValidationError(`${field} is required`, field);
+    }
+  }
+
   private validatePrompt(prompt: string): void {
     if (!prompt || typeof prompt !== 'string') {
       throw new ValidationError('prompt must be a non-empty string', 'prompt');
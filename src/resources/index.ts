@@ -1,2 +1,32 @@
-export { ChatCompletions, type CreateChatCompletionOptions } from './resources/chat.js';
-export { Images, type GenerateImageOptions } from './resources/images.js';
+export {
+  ChatCompletions,
+  type CreateChatCompletionOptions,
+  type RunnableTool,
+  type RunToolsOptions,
+  type RunToolsResult,
+  type ParseChatCompletionOptions,
+  type ParsedChatCompletion,
+} from './chat.js';
+export {
+  Images,
+  type GenerateImageOptions,
+  type GeneratedImageBytes,
+  type EditImageOptions,
+  type CreateImageVariationOptions,
+  type GeneratedImage,
+  type GeneratedImages,
+  type SaveImagesOptions,
+  type SavedImage,
+  type ImageSweepOptions,
+  type ImageSweepCell,
+} from './images.js';
+export { Models, type ListModelsOptions } from './models.js';
+export { Embeddings, decodeEmbedding, type CreateEmbeddingOptions, type EmbeddingResult } from './embeddings.js';
+export { Moderations, flaggedCategories, type CreateModerationOptions } from './moderations.js';export {
+  Batches,
+  type BatchInput,
+  type BatchSummary,
+  type RunBatchOptions,
+  type CreateBatchOptions,
+  type ListBatchesOptions,
+} from './batches.js';
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { MockTransport } from '../testing/index.js';
+import type { ModelInfo } from '../types.js';
+
+function setup(onWarning = vi.fn()) {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, onWarning });
+  return { transport, client, onWarning };
+}
+
+function model(id: string, overrides: Partial<ModelInfo> = {}): ModelInfo {
+  return {
+    id,
+    object: 'model',
+    capabilities: { chat: true, vision: false, tools: true, image_generation: false },
+    ...overrides,
+  };
+}
+
+const page = (ids: string[], has_more: boolean) => ({ object: 'list', data: ids.map(id => model(id)), has_more });
+
+describe('Models', () => {
+  it('walks every page with for await', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(page(['a', 'b'], true));
+    transport.queueJSON(page(['c'], false));
+
+    const ids: string[] = [];
+    for await (const info of await client.models.list({ limit: 2 })) {
+      ids.push(info.id);
+    }
+
+    expect(ids).toEqual(['a', 'b', 'c']);
+    expect(transport.requests.map(request => request.url.replace(/^.*\/v1/, ''))).toEqual([
+      '/models?limit=2',
+      '/models?limit=2&after=b',
+    ]);
+  });
+
+  it('retrieves a model and remembers it', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON(model('lunaby/pro'));
+
+    const response = await client.models.retrieve('lunaby/pro');
+
+    expect(response.data.id).toBe('lunaby/pro');
+    expect(transport.lastRequest?.path).toBe('/v1/models/lunaby%2Fpro');
+    expect(client.models.getCached('lunaby/pro')).toEqual(model('lunaby/pro'));
+    await expect(client.models.retrieve('')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('keeps server-reported limits per client', async () => {
+    const { transport, client } = setup();
+    const other = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+    transport.queueJSON(model('lunaby-pro', { context_length: 8000, max_output_tokens: 1000 }));
+
+    await client.models.retrieve('lunaby-pro');
+
+    expect(client.models.getLimits('lunaby-pro')).toEqual({ contextWindow: 8000, maxOutputTokens: 1000 });
+    expect(other.models.getLimits('lunaby-pro')).toBeUndefined();
+  });
+
+  it('warns once through onWarning when a known model lacks a capability', async () => {
+    const { transport, client, onWarning } = setup();
+    transport.queueJSON(model('lunaby'));
+    transport.queueChatCompletion('a').queueChatCompletion('b');
+    const image = { type: 'image_url' as const, image_url: { url: 'https://example.com/cat.png' } };
+
+    await client.models.retrieve('lunaby');
+    await client.chat.create([{ role: 'user', content: [image] }], { model: 'lunaby' });
+    await client.chat.create([{ role: 'user', content: [image] }], { model: 'lunaby' });
+
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith('[lunaby] Model "lunaby" does not support image input; the request may fail or ignore it.');
+  });
+
+  it('does not check models it has never seen', async () => {
+    const { transport, client, onWarning } = setup();
+    transport.queueImage('aW1n');
+
+    await client.images.generate('a fox', { model: 'lunaby' });
+
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import type {
+  Model,
+  ModelInfo,
+  ModelLimits,
+  PaginatedResponse,
+  RequestOptions,
+} from '../types.js';
+import { ChatResponse } from '../streaming.js';
+import { Page } from '../pagination.js';
+import { ValidationError } from '../errors.js';
+import type { Lunaby } from '../client.js';
+
+export interface ListModelsOptions extends RequestOptions {
+  limit?: number;
+  after?: string;
+}
+
+export class Models {
+  private readonly _known = new Map<string, ModelInfo>();
+  private readonly _warned = new Set<string>();
+
+  constructor(private readonly client: Lunaby) { }
+
+  /**
+   * List available models. Iterate the returned page with `for await` to walk all pages.
+   */
+  async list(options: ListModelsOptions = {}): Promise<Page<ModelInfo>> {
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      limit,
+      after,
+    } = options;
+
+    const query = new URLSearchParams();
+    if (limit !== undefined) query.set('limit', String(limit));
+    if (after) query.set('after', after);
+    const search = query.toString();
+
+    const response = await this.client.request<PaginatedResponse<ModelInfo>>(
+      `/models${search ? `?${search}` : ''}`,
+      {
+        method: 'GET',
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+      }
+    );
+
+    for (const model of response.data.data || []) {
+      this.remember(model);
+    }
+
+    return new Page(response, next => this.list({ ...options, after: next }));
+  }
+
+  async retrieve(
+    id: string,
+    options: RequestOptions = {}
+  ): Promise<ChatResponse<ModelInfo>> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('id must be a non-empty string', 'id');
+    }
+
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+    } = options;
+
+    const response = await this.client.request<ModelInfo>(
+      `/models/${encodeURIComponent(id)}`,
+      {
+        method: 'GET',
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+      }
+    );
+
+    this.remember(response.data);
+    return response;
+  }
+
+  /**
+   * Metadata of a model seen by list() or retrieve() on this client
+   */
+  getCached(id: Model): ModelInfo | undefined {
+    return this._known.get(id);
+  }
+
+  /**
+   * Warn once per model and feature when a request uses a capability the model lacks.
+   * Models that were never listed or retrieved are not checked. Warnings go to the client's `onWarning`.
+   * @internal
+   */
+  checkCapability(id: Model, capability: keyof ModelInfo['capabilities'], feature: string): void {
+    const model = this._known.get(id);
+    const key = `${id}:${capability}`;
+
+    if (!model?.capabilities || model.capabilities[capability] !== false || this._warned.has(key)) {
+      return;
+    }
+
+    this._warned.add(key);
+    this.client.onWarning(`[lunaby] Model "${id}" does not support ${feature}; the request may fail or ignore it.`);
+  }
+
+  /**
+   * Server-reported limits of a model seen on this client. Preflight checks these before the
+   * built-in table, so clients pointed at different servers keep their own limits.
+   * @internal
+   */
+  getLimits(id: Model): ModelLimits | undefined {
+    const model = this._known.get(id);
+    if (!model?.context_length) {
+      return undefined;
+    }
+
+    return {
+      contextWindow: model.context_length,
+      maxOutputTokens: model.max_output_tokens,
+    };
+  }
+
+  private remember(model: ModelInfo): void {
+    this._known.set(model.id, model);
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { MockTransport } from '../testing/index.js';
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+  return { transport, client };
+}
+
+describe('Moderations', () => {
+  it('sends the input with the default model and returns one result per input', async () => {
+    const { transport, client } = setup();
+    transport.queueJSON({
+      id: 'modr-1',
+      model: 'lunaby-moderation',
+      results: [
+        { flagged: false, categories: { hate: false }, category_scores: { hate: 0.01 } },
+        { flagged: true, categories: { hate: true }, category_scores: { hate: 0.97 } },
+      ],
+    });
+
+    const response = await client.moderations.create(['hello', 'hateful text']);
+
+    expect(transport.lastRequest?.path).toBe('/v1/moderations');
+    expect(transport.lastRequest?.body).toEqual({ model: 'lunaby-moderation', input: ['hello', 'hateful text'] });
+    expect(response.data.results.map(result => result.flagged)).toEqual([false, true]);
+    expect(response.data.results[1].category_scores.hate).toBe(0.97);
+  });
+
+  it('caches identical requests by default', async () => {
+    const transport = new MockTransport();
+    const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, cache: true });
+    transport.queueJSON({ id: 'modr-1', model: 'lunaby-moderation', results: [] });
+
+    await client.moderations.create('hello');
+    const second = await client.moderations.create('hello');
+
+    expect(second.cached).toBe(true);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('rejects empty and non-string inputs', async () => {
+    const { transport, client } = setup();
+
+    await expect(client.moderations.create([])).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.moderations.create(['ok', 1 as unknown as string])).rejects.toThrow('input[1] must be a string');
+    expect(transport.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,94 @@
+import type {
+  Model,
+  ModerationCategory,
+  ModerationRequest,
+  ModerationResponse,
+  RequestOptions,
+} from '../types.js';
+import { ChatResponse } from '../streaming.js';
+import { ValidationError } from '../errors.js';
+import type { Lunaby } from '../client.js';
+
+const DEFAULT_MODERATION_MODEL: Model = 'lunaby-moderation';
+
+export interface CreateModerationOptions extends RequestOptions {
+  model?: Model;
+}
+
+export class Moderations {
+  constructor(private readonly client: Lunaby) { }
+
+  /**
+   * Classify text against the content policy. Returns one result per input.
+   */
+  async create(
+    input: string | string[],
+    options: CreateModerationOptions = {}
+  ): Promise<ChatResponse<ModerationResponse>> {
+    this.validateInput(input);
+
+    const {
+      signal,
+      timeout,
+      connectTimeout,
+      idleTimeout,
+      totalTimeout,
+      headers,
+      retryPolicy,
+      priority,
+      cache,
+      ...params
+    } = options;
+
+    const body: ModerationRequest = {
+      model: params.model || DEFAULT_MODERATION_MODEL,
+      input,
+      ...params
+    };
+
+    const response = await this.client.request<ModerationResponse>(
+      '/moderations',
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        signal,
+        timeout,
+        connectTimeout,
+        idleTimeout,
+        totalTimeout,
+        headers,
+        retryPolicy,
+        priority,
+        cache: cache ?? true,
+      }
+    );
+
+    return response;
+  }
+
+  private validateInput(input: string | string[]): void {
+    const inputs = Array.isArray(input) ? input : [input];
+
+    if (inputs.length === 0) {
+      throw new ValidationError('input array cannot be empty', 'input');
+    }
+
+    inputs.forEach((item, i) => {
+      if (typeof item !== 'string') {
+        throw new ValidationError(
+          Array.isArray(input) ? `input[${i}] must be a string` : 'input must be a string',
+          'input'
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Categories of a moderation result flagged by the server, highest score first
+ */
+export function flaggedCategories(result: ModerationResponse['results'][number]): ModerationCategory[] {
+  return (Object.keys(result.categories) as ModerationCategory[])
+    .filter(category => result.categories[category])
+    .sort((a, b) => (result.category_scores[b] ?? 0) - (result.category_scores[a] ?? 0));
+}
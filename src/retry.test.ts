@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Lunaby } from './client.js';
+import { AbortError, APIError, CircuitOpenError, ValidationError } from './errors.js';
+import { CircuitBreaker, calculateRetryDelay, parseRetryAfter, resolveRetryPolicy } from './retry.js';
+import { MockTransport } from './testing/index.js';
+import type { ChatMessage, CircuitState } from './types.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hi' }];
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('calculateRetryDelay', () => {
+  it('applies the backoff strategy and caps it at maxDelay', () => {
+    const exponential = resolveRetryPolicy(3, { initialDelay: 100, jitter: 0, maxDelay: 350 });
+    expect([0, 1, 2].map(attempt => calculateRetryDelay(exponential, attempt, 100))).toEqual([100, 200, 350]);
+
+    const constant = resolveRetryPolicy(3, { backoff: 'constant', initialDelay: 100, jitter: 0 });
+    expect(calculateRetryDelay(constant, 4, 100)).toBe(100);
+
+    const custom = resolveRetryPolicy(3, { backoff: (attempt, previous) => previous + attempt });
+    expect(calculateRetryDelay(custom, 2, 40)).toBe(42);
+  });
+
+  it('keeps decorrelated jitter between the initial delay and three times the previous one', () => {
+    const policy = resolveRetryPolicy(3, { backoff: 'decorrelated-jitter', initialDelay: 100, maxDelay: 10000 });
+
+    for (let i = 0; i < 50; i++) {
+      const delay = calculateRetryDelay(policy, 1, 400);
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(1200);
+    }
+  });
+
+  it('prefers Retry-After, then x-ratelimit-reset on 429', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const policy = resolveRetryPolicy(3, { initialDelay: 100, jitter: 0, maxDelay: 60000 });
+
+    const retryAfter = new Response(null, { status: 503, headers: { 'retry-after': '2' } });
+    expect(calculateRetryDelay(policy, 0, 100, retryAfter)).toBe(2000);
+
+    const reset = new Response(null, { status: 429, headers: { 'x-ratelimit-reset': String(Date.now() / 1000 + 5) } });
+    expect(calculateRetryDelay(policy, 0, 100, reset)).toBe(5000);
+
+    const ignored = resolveRetryPolicy(3, { initialDelay: 100, jitter: 0, respectRetryAfter: false });
+    expect(calculateRetryDelay(ignored, 0, 100, retryAfter)).toBe(100);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP-dates', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+    expect(parseRetryAfter(new Headers({ 'retry-after': '1.5' }))).toBe(1500);
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' }))).toBe(30000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'Wed, 31 Dec 2025 00:00:00 GMT' }))).toBe(0);
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'soon' }))).toBeUndefined();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after the threshold, lets one trial through after the reset timeout and closes on success', () => {
+    vi.useFakeTimers();
+    const states: CircuitState[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000, onStateChange: state => states.push(state) });
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('reopens when the trial fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('client retries', () => {
+  it('lets shouldRetry override the default decision', async () => {
+    const transport = new MockTransport();
+    const seen: number[] = [];
+    const client = new Lunaby({
+      apiKey: 'test-key',
+      fetch: transport.fetch,
+      retryPolicy: {
+        maxRetries: 3,
+        initialDelay: 1,
+        shouldRetry: (error, attempt) => {
+          seen.push(attempt);
+          return error instanceof APIError && error.status === 400 ? true : undefined;
+        },
+      },
+    });
+    transport.queueError(400, { error: 'bad' });
+    transport.queueError(401, { error: 'no' });
+
+    await expect(client.chat.create(messages)).rejects.toMatchObject({ status: 401 });
+    expect(seen).toEqual([0, 1]);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('fails fast with CircuitOpenError once the breaker opens', async () => {
+    const transport = new MockTransport();
+    const client = new Lunaby({
+      apiKey: 'test-key',
+      fetch: transport.fetch,
+      retryPolicy: { maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 } },
+    });
+    transport.queueError(500, { error: 'down' });
+    transport.queueError(502, { error: 'down' });
+
+    await expect(client.chat.create(messages)).rejects.toBeInstanceOf(APIError);
+    await expect(client.chat.create(messages)).rejects.toBeInstanceOf(APIError);
+    const error = await client.chat.create(messages).catch(e => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(client.circuitBreaker?.state).toBe('open');
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('frees the half-open trial when it is aborted', async () => {
+    const transport = new MockTransport();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 });
+    const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, retryPolicy: { maxRetries: 0, circuitBreaker: breaker } });
+    breaker.recordFailure();
+
+    const controller = new AbortController();
+    transport.queueChatCompletion('late', { delay: 1000 });
+    const aborted = client.chat.create(messages, { signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+    transport.reset();
+    transport.queueChatCompletion('ok');
+    await client.chat.create(messages);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('rejects breaker options on a single request', async () => {
+    const transport = new MockTransport();
+    const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+
+    await expect(client.chat.create(messages, { retryPolicy: { circuitBreaker: { failureThreshold: 1 } } }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(transport.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,202 @@
+import type { CircuitBreakerOptions, CircuitState, RetryPolicy } from './types.js';
+import { ValidationError } from './errors.js';
+
+const DEFAULT_INITIAL_DELAY = 500;
+const DEFAULT_MAX_DELAY = 8000;
+const DEFAULT_JITTER = 0.1;
+const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+export interface ResolvedRetryPolicy extends Required<Omit<RetryPolicy, 'shouldRetry' | 'circuitBreaker'>> {
+  shouldRetry?: RetryPolicy['shouldRetry'];
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Merge retry policies over the defaults, later policies taking precedence
+ */
+export function resolveRetryPolicy(
+  maxRetries: number,
+  ...policies: Array<RetryPolicy | undefined>
+): ResolvedRetryPolicy {
+  const merged: RetryPolicy = Object.assign({}, ...policies.filter(Boolean));
+  const { circuitBreaker } = merged;
+
+  // A breaker built here would be new on every request and could never trip
+  if (circuitBreaker && !(circuitBreaker instanceof CircuitBreaker)) {
+    throw new ValidationError(
+      'retryPolicy.circuitBreaker must be a CircuitBreaker instance per request; pass options to the client instead',
+      'retryPolicy.circuitBreaker'
+    );
+  }
+
+  return {
+    maxRetries: merged.maxRetries ?? maxRetries,
+    initialDelay: merged.initialDelay ?? DEFAULT_INITIAL_DELAY,
+    maxDelay: merged.maxDelay ?? DEFAULT_MAX_DELAY,
+    backoff: merged.backoff ?? 'exponential',
+    jitter: merged.jitter ?? DEFAULT_JITTER,
+    retryableStatusCodes: merged.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES,
+    respectRetryAfter: merged.respectRetryAfter ?? true,
+    shouldRetry: merged.shouldRetry,
+    circuitBreaker,
+  };
+}
+
+/**
+ * Calculate the delay before the next attempt. Server hints (Retry-After,
+ * x-ratelimit-reset) win over the backoff strategy, capped at maxDelay.
+ */
+export function calculateRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  previousDelay: number,
+  response?: Response
+): number {
+  if (response && policy.respectRetryAfter) {
+    const serverDelay = parseRetryAfter(response.headers)
+      ?? (response.status === 429 ? parseRateLimitReset(response.headers) : undefined);
+    if (serverDelay !== undefined) {
+      return Math.min(serverDelay, policy.maxDelay);
+    }
+  }
+
+  const { backoff, initialDelay, maxDelay, jitter } = policy;
+  let delay: number;
+
+  if (typeof backoff === 'function') {
+    delay = backoff(attempt, previousDelay);
+  } else if (backoff === 'decorrelated-jitter') {
+    // Random between the initial delay and three times the previous delay
+    const upper = Math.max(initialDelay, previousDelay * 3);
+    delay = initialDelay + Math.random() * (upper - initialDelay);
+  } else if (backoff === 'constant') {
+    delay = initialDelay + Math.random() * jitter * initialDelay;
+  } else {
+    const baseDelay = initialDelay * Math.pow(2, attempt);
+    delay = baseDelay + Math.random() * jitter * baseDelay;
+  }
+
+  return Math.max(0, Math.min(delay, maxDelay));
+}
+
+/**
+ * Parse a Retry-After header given as delta-seconds or an HTTP-date, in milliseconds
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return parseFloat(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parse x-ratelimit-reset (unix seconds) as milliseconds from now
+ */
+export function parseRateLimitReset(headers: Headers): number | undefined {
+  const value = headers.get('x-ratelimit-reset');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = parseFloat(value);
+  return isNaN(seconds) ? undefined : Math.max(0, seconds * 1000 - Date.now());
+}
+
+export class CircuitBreaker {
+  readonly failureThreshold: number;
+  readonly resetTimeout: number;
+
+  private _state: CircuitState = 'closed';
+  private _failures = 0;
+  private _openedAt = 0;
+  private _trialInFlight = false;
+  private readonly _onStateChange?: CircuitBreakerOptions['onStateChange'];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeout = options.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+    this._onStateChange = options.onStateChange;
+  }
+
+  get state(): CircuitState {
+    if (this._state === 'open' && Date.now() - this._openedAt >= this.resetTimeout) {
+      this._transition('half-open');
+    }
+    return this._state;
+  }
+
+  get failures(): number {
+    return this._failures;
+  }
+
+  /**
+   * Time at which an open circuit lets a trial request through
+   */
+  get retryAt(): Date | undefined {
+    return this._state === 'open' ? new Date(this._openedAt + this.resetTimeout) : undefined;
+  }
+
+  /**
+   * Whether a request may be sent. In the half-open state only one trial request is allowed.
+   */
+  canRequest(): boolean {
+    const state = this.state;
+
+    if (state === 'closed') return true;
+    if (state === 'open' || this._trialInFlight) return false;
+
+    this._trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this._failures = 0;
+    this._trialInFlight = false;
+    if (this._state !== 'closed') {
+      this._transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this._failures++;
+    this._trialInFlight = false;
+
+    if (this._state === 'half-open' || this._failures >= this.failureThreshold) {
+      this._openedAt = Date.now();
+      if (this._state !== 'open') {
+        this._transition('open');
+      }
+    }
+  }
+
+  /**
+   * Free the half-open trial slot when the trial ended without an outcome, e.g. it was aborted
+   */
+  releaseTrial(): void {
+    this._trialInFlight = false;
+  }
+
+  reset(): void {
+    this._failures = 0;
+    this._trialInFlight = false;
+    if (this._state !== 'closed') {
+      this._transition('closed');
+    }
+  }
+
+  private _transition(state: CircuitState): void {
+    const previous = this._state;
+    this._state = state;
+    this._onStateChange?.(state, previous);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Runtime helpers that work on Node, Deno, Bun, edge workers and browsers.
+ * Node modules are only loaded lazily, by the features that need a filesystem.
+ */
+
+/**
+ * Read an environment variable on runtimes that have them
+ */
+export function readEnv(name: string): string | undefined {
+  const runtime = globalThis as {
+    process?: { env?: Record<string, string | undefined> };
+    Deno?: { env?: { get(name: string): string | undefined } };
+  };
+
+  if (runtime.process?.env) {
+    return runtime.process.env[name] || undefined;
+  }
+
+  try {
+    return runtime.Deno?.env?.get(name) || undefined;
+  } catch {
+    // Deno without --allow-env
+    return undefined;
+  }
+}
+
+/**
+ * True in a browser page, where an API key would be visible to users
+ */
+export function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof window.document !== 'undefined' && typeof navigator !== 'undefined';
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(base64, 'base64');
+  }
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+
+  // Chunked to stay below the argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * SHA-256 of a string as hex, using Web Crypto (loaded from node:crypto on Node 18)
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle
+    ?? (await import(/* webpackIgnore: true */ /* @vite-ignore */ 'node:crypto')).webcrypto.subtle as SubtleCrypto;
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Random UUID v4, using Web Crypto (loaded from node:crypto on Node 18)
+ */
+export async function randomUUID(): Promise<string> {
+  const crypto = typeof globalThis.crypto?.randomUUID === 'function'
+    ? globalThis.crypto
+    : (await import(/* webpackIgnore: true */ /* @vite-ignore */ 'node:crypto')).webcrypto as Crypto;
+
+  return crypto.randomUUID();
+}
+
+/**
+ * Load node:fs/promises on first use, hidden from browser bundlers
+ */
+export function loadFs(): Promise<typeof import('node:fs/promises')> {
+  return import(/* webpackIgnore: true */ /* @vite-ignore */ 'node:fs/promises');
+}
+
+/**
+ * Extension of a file path including the dot, without node:path
+ */
+export function extensionOf(path: string): string {
+  const name = path.slice(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Lunaby } from './client.js';
+import { AbortError } from './errors.js';
+import { RequestScheduler, estimateRequestTokens } from './scheduler.js';
+import { MockTransport } from './testing/index.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RequestScheduler', () => {
+  it('limits concurrency and serves higher priority lanes first', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const order: string[] = [];
+
+    const first = await scheduler.acquire();
+    const waiting = (['low', 'normal', 'high'] as const).map(priority =>
+      scheduler.acquire({ priority }).then(lease => {
+        order.push(priority);
+        lease.release();
+      })
+    );
+    expect(scheduler.active).toBe(1);
+    expect(scheduler.pending).toBe(3);
+
+    first.release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('waits for the rolling requests-per-minute window', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler({ requestsPerMinute: 2 });
+
+    (await scheduler.acquire()).release();
+    (await scheduler.acquire()).release();
+    let third = false;
+    const pending = scheduler.acquire().then(() => { third = true; });
+
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(third).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(third).toBe(true);
+  });
+
+  it('budgets tokens per minute and corrects estimates with actual usage', async () => {
+    vi.useFakeTimers();
+    const estimated = new RequestScheduler({ tokensPerMinute: 100 });
+    const corrected = new RequestScheduler({ tokensPerMinute: 100 });
+
+    (await estimated.acquire({ tokens: 90 })).release();
+    (await corrected.acquire({ tokens: 90 })).release(20);
+    const admitted: string[] = [];
+    estimated.acquire({ tokens: 80 }).then(() => admitted.push('estimated'));
+    corrected.acquire({ tokens: 80 }).then(() => admitted.push('corrected'));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(admitted).toEqual(['corrected']);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(admitted).toEqual(['corrected', 'estimated']);
+  });
+
+  it('estimates prompt characters / 4 plus max_tokens', () => {
+    expect(estimateRequestTokens(JSON.stringify({ prompt: 'x'.repeat(30), max_tokens: 50 }))).toBe(65);
+    expect(estimateRequestTokens(undefined)).toBe(0);
+  });
+
+  it('pauses on 429 with Retry-After and on an exhausted budget', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const scheduler = new RequestScheduler();
+
+    scheduler.observe(new Response(null, { status: 429, headers: { 'retry-after': '3' } }));
+    expect(scheduler.pausedUntil?.getTime()).toBe(Date.now() + 3000);
+
+    scheduler.observe(new Response(null, {
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Date.now() / 1000 + 10) },
+    }));
+    expect(scheduler.pausedUntil?.getTime()).toBe(Date.now() + 10000);
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const held = await scheduler.acquire();
+    const controller = new AbortController();
+
+    const queued = scheduler.acquire({ signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    expect(scheduler.pending).toBe(0);
+    held.release();
+  });
+});
+
+describe('client scheduler', () => {
+  it('keeps in-flight requests under maxConcurrent', async () => {
+    const transport = new MockTransport();
+    const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, scheduler: { maxConcurrent: 2 } });
+    let inFlight = 0;
+    let peak = 0;
+
+    for (let i = 0; i < 5; i++) {
+      transport.queueHandler(async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return Response.json({ created: 0, data: [{ b64_json: 'AA==' }] });
+      });
+    }
+
+    await Promise.all(Array.from({ length: 5 }, (_, i) => client.images.generate(`prompt ${i}`)));
+
+    expect(peak).toBe(2);
+    expect(client.scheduler?.active).toBe(0);
+  });
+});
@@ -0,0 +1,216 @@
+import type { RequestPriority, SchedulerOptions } from './types.js';
+import { AbortError } from './errors.js';
+import { parseRateLimitReset, parseRetryAfter } from './retry.js';
+
+const WINDOW_MS = 60000;
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export interface SchedulerLease {
+  /** Free the concurrency slot, optionally correcting the token estimate with actual usage */
+  release(usedTokens?: number): void;
+}
+
+interface QueueEntry {
+  rank: number;
+  tokens: number;
+  resolve: (lease: SchedulerLease) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal | null;
+  onAbort?: () => void;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+/**
+ * Estimate the token cost of a request body: prompt characters / 4 plus max_tokens
+ */
+export function estimateRequestTokens(body: string | undefined): number {
+  if (!body) {
+    return 0;
+  }
+
+  let maxTokens = 0;
+  try {
+    maxTokens = (JSON.parse(body) as { max_tokens?: number }).max_tokens || 0;
+  } catch {
+    // Non-JSON bodies only count their size
+  }
+
+  return Math.ceil(body.length / 4) + maxTokens;
+}
+
+/**
+ * Client-side queue enforcing concurrency, requests-per-minute and tokens-per-minute
+ * budgets, with priority lanes and pauses driven by the server's rate limit headers.
+ */
+export class RequestScheduler {
+  readonly maxConcurrent: number;
+  readonly requestsPerMinute?: number;
+  readonly tokensPerMinute?: number;
+  readonly pauseOnRateLimit: boolean;
+  readonly estimateTokens: (body: string | undefined) => number;
+
+  private _active = 0;
+  private _queue: QueueEntry[] = [];
+  private _window: WindowEntry[] = [];
+  private _pausedUntil = 0;
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.requestsPerMinute = options.requestsPerMinute;
+    this.tokensPerMinute = options.tokensPerMinute;
+    this.pauseOnRateLimit = options.pauseOnRateLimit ?? true;
+    this.estimateTokens = options.estimateTokens || estimateRequestTokens;
+  }
+
+  get active(): number {
+    return this._active;
+  }
+
+  get pending(): number {
+    return this._queue.length;
+  }
+
+  get pausedUntil(): Date | undefined {
+    return this._pausedUntil > Date.now() ? new Date(this._pausedUntil) : undefined;
+  }
+
+  /**
+   * Wait for a slot. Higher priority requests are served first, FIFO within a lane.
+   */
+  acquire(options: { priority?: RequestPriority; tokens?: number; signal?: AbortSignal | null } = {}): Promise<SchedulerLease> {
+    const { priority = 'normal', tokens = 0, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError('Request was aborted'));
+        return;
+      }
+
+      const entry: QueueEntry = { rank: PRIORITY_RANK[priority], tokens, resolve, reject, signal };
+
+      if (signal) {
+        entry.onAbort = () => {
+          this._queue = this._queue.filter(queued => queued !== entry);
+          reject(new AbortError('Request was aborted'));
+          this._drain();
+        };
+        signal.addEventListener('abort', entry.onAbort, { once: true });
+      }
+
+      const index = this._queue.findIndex(queued => queued.rank > entry.rank);
+      if (index === -1) {
+        this._queue.push(entry);
+      } else {
+        this._queue.splice(index, 0, entry);
+      }
+
+      this._drain();
+    });
+  }
+
+  /**
+   * Stop dispatching until the given time has passed
+   */
+  pause(ms: number): void {
+    this._pausedUntil = Math.max(this._pausedUntil, Date.now() + ms);
+    this._drain();
+  }
+
+  /**
+   * Pause when the server reports the budget is exhausted (429 or x-ratelimit-remaining: 0)
+   */
+  observe(response: Response): void {
+    if (!this.pauseOnRateLimit) {
+      return;
+    }
+
+    const { headers, status } = response;
+    let delay: number | undefined;
+
+    if (status === 429) {
+      delay = parseRetryAfter(headers) ?? parseRateLimitReset(headers);
+    } else if (headers.get('x-ratelimit-remaining') === '0') {
+      delay = parseRateLimitReset(headers);
+    }
+
+    if (delay) {
+      this.pause(delay);
+    }
+  }
+
+  private _drain(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+
+    while (this._queue.length > 0 && this._active < this.maxConcurrent) {
+      const now = Date.now();
+      const wait = Math.max(this._pausedUntil - now, this._budgetWait(this._queue[0].tokens, now));
+
+      if (wait > 0) {
+        this._timer = setTimeout(() => this._drain(), wait);
+        return;
+      }
+
+      const entry = this._queue.shift()!;
+      if (entry.onAbort) {
+        entry.signal?.removeEventListener('abort', entry.onAbort);
+      }
+
+      const windowEntry: WindowEntry = { time: now, tokens: entry.tokens };
+      this._window.push(windowEntry);
+      this._active++;
+
+      let released = false;
+      entry.resolve({
+        release: (usedTokens?: number) => {
+          if (released) return;
+          released = true;
+          if (usedTokens !== undefined) {
+            windowEntry.tokens = usedTokens;
+          }
+          this._active--;
+          this._drain();
+        },
+      });
+    }
+  }
+
+  /**
+   * Milliseconds until a request costing `tokens` fits in the rolling one-minute budgets
+   */
+  private _budgetWait(tokens: number, now: number): number {
+    this._window = this._window.filter(entry => now - entry.time < WINDOW_MS);
+
+    let wait = 0;
+
+    if (this.requestsPerMinute !== undefined && this._window.length >= this.requestsPerMinute) {
+      const oldest = this._window[this._window.length - this.requestsPerMinute];
+      wait = Math.max(wait, oldest.time + WINDOW_MS - now);
+    }
+
+    if (this.tokensPerMinute !== undefined) {
+      let used = this._window.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      // A request larger than the whole budget still runs once the window is empty
+      for (const entry of this._window) {
+        if (used + tokens <= this.tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return wait;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { validateJSONSchema } from './schema.js';
+import { ValidationError } from './errors.js';
+import type { JSONSchema } from './types.js';
+
+const person: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+    address: { $ref: '#/$defs/address' },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+  $defs: {
+    address: { type: 'object', properties: { zip: { type: 'string', pattern: '^\\d{5}$' } }, required: ['zip'] },
+  },
+};
+
+describe('validateJSONSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateJSONSchema({ name: 'Ada', age: 36, tags: ['a', 'b'], address: { zip: '12345' } }, person)).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    expect(validateJSONSchema({ name: '', age: 1.5, tags: ['a', 'a'], address: { zip: 'x' }, extra: true }, person)).toEqual([
+      { path: '$.name', message: 'must have at least 1 characters' },
+      { path: '$.age', message: 'must be of type integer, got number' },
+      { path: '$.tags', message: 'must not contain duplicate items' },
+      { path: '$.address.zip', message: 'must match pattern ^\\d{5}$' },
+      { path: '$.extra', message: 'is not an allowed property' },
+    ]);
+    expect(validateJSONSchema({}, person)).toEqual([
+      { path: '$', message: 'is missing required property "name"' },
+      { path: '$', message: 'is missing required property "age"' },
+    ]);
+  });
+
+  it('checks anyOf, oneOf, not, enum and const', () => {
+    expect(validateJSONSchema(3, { anyOf: [{ type: 'string' }, { type: 'boolean' }] })).toHaveLength(1);
+    expect(validateJSONSchema(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] })[0].message)
+      .toBe('must match exactly one schema in oneOf, matched 2');
+    expect(validateJSONSchema('x', { not: { type: 'string' } })).toHaveLength(1);
+    expect(validateJSONSchema('c', { enum: ['a', 'b'] })[0].message).toBe('must be one of "a", "b"');
+    expect(validateJSONSchema({ a: [1] }, { const: { a: [1] } })).toEqual([]);
+  });
+
+  it('tolerates float rounding in multipleOf', () => {
+    const schema: JSONSchema = { type: 'number', multipleOf: 0.1 };
+
+    expect(validateJSONSchema(0.3, schema)).toEqual([]);
+    expect(validateJSONSchema(1.1, schema)).toEqual([]);
+    expect(validateJSONSchema(0.35, schema)).toEqual([{ path: '$', message: 'must be a multiple of 0.1' }]);
+  });
+
+  it('throws a ValidationError for an invalid pattern', () => {
+    expect(() => validateJSONSchema({ code: 'a' }, { properties: { code: { type: 'string', pattern: '(' } } }))
+      .toThrow(ValidationError);
+    expect(() => validateJSONSchema('a', { pattern: '[' })).toThrow(/Schema pattern for \$ is not a valid regular expression/);
+  });
+});
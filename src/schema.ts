@@ -0,0 +1,213 @@
+import type { JSONSchema, JSONSchemaType, SchemaViolation } from './types.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Validate a value against a JSON Schema and return every violation found.
+ * Supports the subset of draft 2020-12 used for structured outputs.
+ * Throws a ValidationError when the schema itself is invalid, e.g. a malformed `pattern`.
+ */
+export function validateJSONSchema(value: unknown, schema: JSONSchema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateNode(value, schema, '$', schema, violations);
+  return violations;
+}
+
+function compilePattern(pattern: string, path: string): RegExp {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch (error) {
+    throw new ValidationError(
+      `Schema pattern for ${path} is not a valid regular expression: ${(error as Error).message}`,
+      'schema'
+    );
+  }
+}
+
+function validateNode(
+  value: unknown,
+  schema: JSONSchema | boolean,
+  path: string,
+  root: JSONSchema,
+  violations: SchemaViolation[]
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    violations.push({ path, message: 'is not allowed' });
+    return;
+  }
+
+  if (schema.$ref) {
+    const resolved = resolveRef(schema.$ref, root);
+    if (!resolved) {
+      violations.push({ path, message: `cannot resolve $ref ${schema.$ref}` });
+      return;
+    }
+    validateNode(value, resolved, path, root, violations);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      violations.push({ path, message: `must be of type ${types.join(' | ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    violations.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(value, option))) {
+    violations.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !compilePattern(schema.pattern, path).test(value)) {
+      violations.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      violations.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined) {
+      // Compare with a tolerance, since e.g. 0.3 / 0.1 is 2.9999999999999996
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) >= 1e-9) {
+        violations.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.uniqueItems && value.some((item, i) => value.findIndex(other => deepEqual(item, other)) !== i)) {
+      violations.push({ path, message: 'must not contain duplicate items' });
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => validateNode(item, schema.items!, `${path}[${i}]`, root, violations));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        violations.push({ path, message: `is missing required property "${key}"` });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}.${key}`;
+
+      if (key in properties) {
+        validateNode(propertyValue, properties[key], propertyPath, root, violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: propertyPath, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, propertyPath, root, violations);
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      validateNode(value, subschema, path, root, violations);
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(subschema => matches(value, subschema, root))) {
+    violations.push({ path, message: 'must match at least one schema in anyOf' });
+  }
+
+  if (schema.oneOf) {
+    const matchCount = schema.oneOf.filter(subschema => matches(value, subschema, root)).length;
+    if (matchCount !== 1) {
+      violations.push({ path, message: `must match exactly one schema in oneOf, matched ${matchCount}` });
+    }
+  }
+
+  if (schema.not !== undefined && matches(value, schema.not, root)) {
+    violations.push({ path, message: 'must not match the schema in not' });
+  }
+}
+
+function matches(value: unknown, schema: JSONSchema | boolean, root: JSONSchema): boolean {
+  const violations: SchemaViolation[] = [];
+  validateNode(value, schema, '$', root, violations);
+  return violations.length === 0;
+}
+
+function resolveRef(ref: string, root: JSONSchema): JSONSchema | undefined {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+
+  let node: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    node = isPlainObject(node) ? node[key] : undefined;
+  }
+
+  return isPlainObject(node) ? (node as JSONSchema) : undefined;
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+  }
+  return false;
+}
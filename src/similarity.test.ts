@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { cosineSimilarity, dotProduct, normalize, topKSimilar } from './similarity.js';
+
+describe('similarity', () => {
+  it('computes dot products and cosine similarity', () => {
+    expect(dotProduct([1, 2, 3], [4, 5, 6])).toBe(32);
+    expect(cosineSimilarity([1, 0], [2, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 3])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(() => dotProduct([1], [1, 2])).toThrow(RangeError);
+  });
+
+  it('normalizes to unit length', () => {
+    expect(Array.from(normalize([3, 4]))).toEqual([expect.closeTo(0.6), expect.closeTo(0.8)]);
+    expect(Array.from(normalize([0, 0]))).toEqual([0, 0]);
+  });
+
+  it('ranks the top k candidates, best first', () => {
+    const candidates = [[0, 1], [1, 0], [1, 1]];
+
+    expect(topKSimilar([1, 0.1], candidates, 2).map(match => match.index)).toEqual([1, 2]);
+  });
+});
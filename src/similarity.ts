@@ -0,0 +1,40 @@
+export type Vector = ArrayLike<number>;
+
+export function dotProduct(a: Vector, b: Vector): number {
+  if (a.length !== b.length) {
+    throw new RangeError(`Vectors must have the same length (${a.length} !== ${b.length})`);
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export function cosineSimilarity(a: Vector, b: Vector): number {
+  const denominator = Math.sqrt(dotProduct(a, a)) * Math.sqrt(dotProduct(b, b));
+  return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
+
+/**
+ * Scale a vector to unit length, so dot products equal cosine similarity
+ */
+export function normalize(vector: Vector): Float32Array {
+  const length = Math.sqrt(dotProduct(vector, vector));
+  const result = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = length === 0 ? 0 : vector[i] / length;
+  }
+  return result;
+}
+
+/**
+ * Indices and scores of the `k` candidates most similar to the query, best first
+ */
+export function topKSimilar(query: Vector, candidates: readonly Vector[], k: number = 5): Array<{ index: number; score: number }> {
+  return candidates
+    .map((candidate, index) => ({ index, score: cosineSimilarity(query, candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from './client.js';
+import { ChatStream, parseSSEStream } from './streaming.js';
+import { StreamError } from './errors.js';
+import { MockTransport, toolCallChunks } from './testing/index.js';
+import type { ChatMessage, StreamEvent } from './types.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hi' }];
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of parseSSEStream(stream)) {
+    events.push(event);
+  }
+  return events;
+}
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch });
+  return { transport, client };
+}
+
+describe('parseSSEStream', () => {
+  it('handles CRLF split across chunks, multi-line data and comments', async () => {
+    const events = await collect(streamOf(
+      ': keep-alive\r',
+      '\nevent: update\r\ndata: first\r',
+      '\ndata: second\r\n\r',
+      '\ndata: third\n\n',
+    ));
+
+    expect(events).toEqual([
+      { event: 'update', data: 'first\nsecond' },
+      { event: 'message', data: 'third' },
+    ]);
+  });
+
+  it('keeps the last event id and retry across events and ignores non-numeric retry', async () => {
+    const events = await collect(streamOf(
+      'id: 7\nretry: 1500\ndata: a\n\n',
+      'retry: soon\ndata: b\n\n',
+    ));
+
+    expect(events[0]).toMatchObject({ data: 'a', id: '7', retry: 1500 });
+    expect(events[1]).toMatchObject({ data: 'b', id: '7', retry: 1500 });
+  });
+
+  it('discards an event that is not terminated by a blank line', async () => {
+    const events = await collect(streamOf('data: done\n\n', 'data: cut off'));
+
+    expect(events.map(event => event.data)).toEqual(['done']);
+  });
+});
+
+describe('ChatStream tool calls', () => {
+  it('merges argument fragments into complete tool calls', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(toolCallChunks([
+      { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hanoi","unit":"c"}' } },
+      { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '{"tz":"Asia/Ho_Chi_Minh"}' } },
+    ], 5));
+
+    const stream = await client.chat.createStream(messages);
+    await stream.toContent();
+
+    expect(stream.toolCalls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hanoi","unit":"c"}' } },
+      { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '{"tz":"Asia/Ho_Chi_Minh"}' } },
+    ]);
+  });
+
+  it('fires onToolCall for each call with the chunk that starts the next one', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(toolCallChunks([
+      { id: 'call_1', type: 'function', function: { name: 'first', arguments: '{"n":1}' } },
+      { id: 'call_2', type: 'function', function: { name: 'second', arguments: '{"n":2}' } },
+    ], 3));
+
+    const events: string[] = [];
+    const stream = await client.chat.createStream(messages);
+    await stream.process({
+      onToolCallDelta: (delta, snapshot) => events.push(`delta ${delta.index} ${snapshot.function.arguments}`),
+      onToolCall: toolCall => events.push(`call ${toolCall.id} ${toolCall.function.arguments}`),
+    });
+
+    expect(events).toEqual([
+      'delta 0 ',
+      'delta 0 {"n',
+      'delta 0 {"n":1',
+      'delta 0 {"n":1}',
+      'delta 1 ',
+      'call call_1 {"n":1}',
+      'delta 1 {"n',
+      'delta 1 {"n":2',
+      'delta 1 {"n":2}',
+      'call call_2 {"n":2}',
+    ]);
+  });
+
+  it('takes complete tool calls from agent endpoints that send a message', async () => {
+    const { transport, client } = setup();
+    const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'lookup', arguments: '{}' } };
+    transport.queueStream([{
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'lunaby-pro',
+      choices: [{ index: 0, delta: {}, message: { role: 'assistant', content: '', tool_calls: [toolCall] }, finish_reason: 'tool_calls' }],
+    }]);
+
+    const stream = await client.chat.createStream(messages);
+    await stream.toContent();
+
+    expect(stream.toolCalls).toEqual([toolCall]);
+  });
+});
+
+describe('ChatStream resume', () => {
+  it('reconnects with Last-Event-ID after a dropped connection', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['a', 'b', 'c'], { firstEventId: 1, dropAfter: 2 });
+    transport.queueStream(['c', 'd'], { firstEventId: 3 });
+
+    const stream = await client.chat.createStream(messages, { resume: {} });
+
+    expect(await stream.toContent()).toBe('abcd');
+    expect(stream.reconnects).toBe(1);
+    expect(transport.lastRequest?.headers['last-event-id']).toBe('2');
+  });
+
+  it('falls back to a continuation when the server cannot resume', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['Hel', 'lo '], { firstEventId: 1, dropAfter: 2 });
+    transport.queueError(410, { error: 'gone' });
+    transport.queueStream(['world']);
+
+    const stream = await client.chat.createStream(messages, { resume: true });
+
+    expect(await stream.toContent()).toBe('Hello world');
+    expect(transport.lastRequest?.body).toMatchObject({
+      messages: [...messages, { role: 'assistant', content: 'Hello ' }],
+    });
+  });
+
+  it('fails with StreamError when resume is off', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['x', 'y'], { dropAfter: 1 });
+
+    const stream = await client.chat.createStream(messages);
+
+    await expect(stream.toContent()).rejects.toBeInstanceOf(StreamError);
+    expect(stream.reconnects).toBe(0);
+  });
+});
+
+describe('ChatStream re-encoding', () => {
+  it('re-emits SSE that fromReadableStream reads back, ending with [DONE]', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['Hel', 'lo']);
+
+    const body = (await client.chat.createStream(messages)).toReadableStream();
+    const [raw, proxied] = body.tee();
+    const text = await new Response(raw).text();
+    const rebuilt = ChatStream.fromReadableStream(proxied);
+
+    expect(text.startsWith('data: {')).toBe(true);
+    expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+    expect(await rebuilt.toContent()).toBe('Hello');
+  });
+
+  it('re-emits NDJSON without a [DONE] line', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['a', 'b']);
+
+    const text = await new Response((await client.chat.createStream(messages)).toReadableStream('ndjson')).text();
+    const lines = text.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines.map(chunk => chunk.choices[0].delta.content)).toEqual(['a', 'b']);
+    expect(await ChatStream.fromReadableStream(new Response(text).body!, { format: 'ndjson' }).toContent()).toBe('ab');
+  });
+
+  it('streams content deltas only as text', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['Hel', 'lo']);
+
+    const text = await new Response((await client.chat.createStream(messages)).toTextStream()).text();
+
+    expect(text).toBe('Hello');
+  });
+
+  it('tees into two streams that both see every chunk', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['one ', 'two']);
+
+    const stream = await client.chat.createStream(messages);
+    const [first, second] = stream.tee();
+
+    expect(await Promise.all([first.toContent(), second.toContent()])).toEqual(['one two', 'one two']);
+  });
+
+  it('refuses to be iterated twice', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['x']);
+
+    const stream = await client.chat.createStream(messages);
+    await stream.toContent();
+
+    await expect(stream.toContent()).rejects.toThrow(StreamError);
+  });
+});
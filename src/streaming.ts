@@ -1,72 +1,283 @@
-import type { ChatCompletionChunk, StreamEvent } from './types.js';
-import { StreamError } from './errors.js';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  FinishReason,
+  StreamEvent,
+  ToolCall,
+  ToolCallDelta,
+} from './types.js';
+import { ContentFilterError, LunabyError, StreamError } from './errors.js';
+import { contentToText } from './content.js';
 
+export interface StreamResumeContext {
+  /** Error that ended the current connection */
+  error: Error;
+  /** ID of the last complete event received, if the server sends ids */
+  lastEventId?: string;
+  /** Reconnection delay last sent by the server with `retry:` */
+  retry?: number;
+  /** Content received so far, across all connections */
+  content: string;
+  toolCalls: ToolCall[];
+  /** Reconnects made before this one */
+  reconnects: number;
+}
+
+/**
+ * Opens a new connection continuing a dropped stream, or returns null to give up.
+ * The new stream must only carry events the caller has not seen yet.
+ */
+export type StreamResumer = (
+  context: StreamResumeContext
+) => Promise<{ stream: ReadableStream<Uint8Array>; abortController?: AbortController } | null>;
+
+/** Wire format of a chat stream: server-sent events or one JSON chunk per line */
+export type ChatStreamFormat = 'sse' | 'ndjson';
+
+export interface ChatStreamOptions {
+  /** Format of the source stream (default 'sse') */
+  format?: ChatStreamFormat;
+  /** Throw ContentFilterError when a choice ends with finish_reason "content_filter" */
+  throwOnContentFilter?: boolean;
+  /** Called when the connection drops mid-stream */
+  resume?: StreamResumer;
+}
+
+/**
+ * Parse a server-sent event stream following the WHATWG EventSource rules:
+ * fields are grouped into events at blank lines, `data` lines are joined with
+ * "\n", comment lines are skipped and CRLF, LF and CR line endings are accepted.
+ * An event left unterminated when the stream ends is discarded.
+ */
 export async function* parseSSEStream(
   stream: ReadableStream<Uint8Array>
 ): AsyncGenerator<StreamEvent, void, unknown> {
   const reader = stream.getReader();
+  // Strips a leading byte order mark, as the spec requires
   const decoder = new TextDecoder('utf-8');
+  const state: SSEParserState = { data: [], hasData: false, eventType: '', skipLineFeed: false };
   let buffer = '';
 
   try {
     while (true) {
       const { done, value } = await reader.read();
+      let text = done ? decoder.decode() : decoder.decode(value, { stream: true });
 
-      if (done) {
-        // Process any remaining buffer
-        if (buffer.trim()) {
-          const lines = buffer.split('\n');
-          for (const line of lines) {
-            const event = parseLine(line);
-            if (event) yield event;
-          }
+      // A CR ending the previous chunk may be the first half of a CRLF
+      if (state.skipLineFeed && text) {
+        if (text.startsWith('\n')) {
+          text = text.slice(1);
         }
-        break;
+        state.skipLineFeed = false;
       }
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      
-      // Keep the last incomplete line in buffer
-      buffer = lines.pop() || '';
+      buffer += text;
+
+      let lineStart = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char !== '\n' && char !== '\r') {
+          continue;
+        }
+
+        const event = parseLine(state, buffer.slice(lineStart, i));
+
+        if (char === '\r') {
+          if (i + 1 < buffer.length) {
+            if (buffer[i + 1] === '\n') i++;
+          } else {
+            state.skipLineFeed = true;
+          }
+        }
+        lineStart = i + 1;
 
-      for (const line of lines) {
-        const event = parseLine(line);
         if (event) yield event;
       }
+      buffer = buffer.slice(lineStart);
+
+      if (done) {
+        break;
+      }
     }
   } finally {
     reader.releaseLock();
   }
 }
 
-function parseLine(line: string): StreamEvent | null {
-  const trimmed = line.trim();
-  
-  if (!trimmed) {
+interface SSEParserState {
+  data: string[];
+  hasData: boolean;
+  eventType: string;
+  lastEventId?: string;
+  retry?: number;
+  skipLineFeed: boolean;
+}
+
+/**
+ * Apply one line to the parser state, returning an event when a blank line dispatches one
+ */
+function parseLine(state: SSEParserState, line: string): StreamEvent | null {
+  if (line === '') {
+    const hasData = state.hasData;
+    const event: StreamEvent = {
+      event: state.eventType || 'message',
+      data: state.data.join('\n'),
+      ...(state.lastEventId !== undefined && { id: state.lastEventId }),
+      ...(state.retry !== undefined && { retry: state.retry }),
+    };
+
+    state.data = [];
+    state.hasData = false;
+    state.eventType = '';
+
+    // Blocks without data (e.g. only `id:` or `retry:`) update the state but dispatch nothing
+    return hasData ? event : null;
+  }
+
+  if (line.startsWith(':')) {
     return null;
   }
 
-  if (trimmed.startsWith('event:')) {
-    return { event: trimmed.slice(6).trim(), data: '' };
+  const colon = line.indexOf(':');
+  const field = colon === -1 ? line : line.slice(0, colon);
+  let value = colon === -1 ? '' : line.slice(colon + 1);
+  if (value.startsWith(' ')) {
+    value = value.slice(1);
   }
 
-  if (trimmed.startsWith('data:')) {
-    return { data: trimmed.slice(5).trim() };
+  switch (field) {
+    case 'event':
+      state.eventType = value;
+      break;
+    case 'data':
+      state.data.push(value);
+      state.hasData = true;
+      break;
+    case 'id':
+      if (!value.includes('\0')) {
+        state.lastEventId = value;
+      }
+      break;
+    case 'retry':
+      if (/^\d+$/.test(value)) {
+        state.retry = parseInt(value, 10);
+      }
+      break;
   }
 
   return null;
 }
 
+/**
+ * Parse newline-delimited JSON into message events, one per non-empty line
+ */
+async function* parseNDJSONStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamEvent, void, unknown> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (data) yield { event: 'message', data };
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 export class ChatStream implements AsyncIterable<ChatCompletionChunk> {
   private _stream: ReadableStream<Uint8Array>;
   private _abortController?: AbortController;
   private _fullContent: string = '';
   private _usage?: ChatCompletionChunk['usage'];
+  private _toolCalls: Map<number, ToolCall> = new Map();
+  private _completedToolCalls: Set<number> = new Set();
+  private _pendingToolCalls: ToolCall[] = [];
+  private _toolCallDeltas: Array<{ delta: ToolCallDelta; snapshot: ToolCall }> = [];
+  private _completeListeners: Array<(stream: ChatStream) => void> = [];
+  private _throwOnContentFilter: boolean;
+  private _resume?: StreamResumer;
+  private _lastEventId?: string;
+  private _retry?: number;
+  private _reconnects: number = 0;
+  private _finishReason?: FinishReason;
+  private _iterated: boolean = false;
+  private _format: ChatStreamFormat;
+
+  readonly cached: boolean;
 
-  constructor(stream: ReadableStream<Uint8Array>, abortController?: AbortController) {
+  constructor(
+    stream: ReadableStream<Uint8Array>,
+    abortController?: AbortController,
+    cached: boolean = false,
+    options: ChatStreamOptions = {}
+  ) {
     this._stream = stream;
     this._abortController = abortController;
+    this.cached = cached;
+    this._throwOnContentFilter = options.throwOnContentFilter ?? false;
+    this._resume = options.resume;
+    this._format = options.format || 'sse';
+  }
+
+  /**
+   * Rebuild a ChatStream from the output of toReadableStream(), e.g. a proxied fetch body in the browser
+   */
+  static fromReadableStream(
+    stream: ReadableStream<Uint8Array>,
+    options: ChatStreamOptions = {}
+  ): ChatStream {
+    return new ChatStream(stream, undefined, false, options);
+  }
+
+  /**
+   * Replay a complete response as a stream of a single chunk, e.g. from the cache
+   */
+  static fromCompletion(
+    completion: ChatCompletionResponse,
+    cached: boolean = false,
+    options: ChatStreamOptions = {}
+  ): ChatStream {
+    const chunk: ChatCompletionChunk = {
+      id: completion.id,
+      object: 'chat.completion.chunk',
+      created: completion.created,
+      model: completion.model,
+      choices: completion.choices.map(choice => ({
+        index: choice.index,
+        delta: {
+          ...choice.message,
+          tool_calls: choice.message.tool_calls?.map((toolCall, index) => ({ index, ...toolCall })),
+        },
+        finish_reason: choice.finish_reason,
+      })),
+      usage: completion.usage,
+    };
+
+    const body = `data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(body));
+        controller.close();
+      },
+    });
+
+    return new ChatStream(stream, undefined, cached, options);
   }
 
   abort(): void {
@@ -77,48 +288,303 @@ export class ChatStream implements AsyncIterable<ChatCompletionChunk> {
     return this._fullContent;
   }
 
+  /**
+   * Times the stream reconnected after a dropped connection
+   */
+  get reconnects(): number {
+    return this._reconnects;
+  }
+
+  /**
+   * ID of the last complete event received, if the server sends ids
+   */
+  get lastEventId(): string | undefined {
+    return this._lastEventId;
+  }
+
   get usage(): ChatCompletionChunk['usage'] | undefined {
     return this._usage;
   }
 
+  /**
+   * Finish reason of the first choice, once the stream has sent it
+   */
+  get finishReason(): FinishReason | undefined {
+    return this._finishReason;
+  }
+
+  /**
+   * Tool calls assembled from the stream so far, ordered by index
+   */
+  get toolCalls(): ToolCall[] {
+    return [...this._toolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, toolCall]) => toolCall);
+  }
+
+  /**
+   * Register a callback fired once the stream has been read to the end
+   */
+  onComplete(listener: (stream: ChatStream) => void): this {
+    this._completeListeners.push(listener);
+    return this;
+  }
+
   async *[Symbol.asyncIterator](): AsyncGenerator<ChatCompletionChunk, void, unknown> {
-    try {
-      for await (const event of parseSSEStream(this._stream)) {
-        if (event.data === '[DONE]') {
-          return;
-        }
+    // The body can only be read once
+    if (this._iterated) {
+      throw new StreamError('ChatStream can only be iterated once; use tee() to read it twice');
+    }
+    this._iterated = true;
 
-        if (!event.data) {
-          continue;
-        }
+    let completed = false;
 
+    try {
+      while (true) {
         try {
-          const chunk: ChatCompletionChunk = JSON.parse(event.data);
-          
-          // Accumulate content (fallback to message.content for agent endpoints)
-          const delta = chunk.choices?.[0]?.delta;
-          const message = (chunk.choices?.[0] as any)?.message;
-          const content = delta?.content || message?.content;
-          if (content) {
-            this._fullContent += content;
-          }
+          const events = this._format === 'ndjson' ? parseNDJSONStream(this._stream) : parseSSEStream(this._stream);
+
+          for await (const event of events) {
+            if (event.id !== undefined) {
+              this._lastEventId = event.id;
+            }
+            if (event.retry !== undefined) {
+              this._retry = event.retry;
+            }
+
+            if (event.data === '[DONE]') {
+              completed = true;
+              return;
+            }
+
+            if (!event.data) {
+              continue;
+            }
+
+            let chunk: ChatCompletionChunk;
+            try {
+              chunk = JSON.parse(event.data);
+            } catch (parseError) {
+              // Ignore parse errors for incomplete JSON
+              continue;
+            }
+
+            // Accumulate content (fallback to message.content for agent endpoints)
+            const delta = chunk.choices?.[0]?.delta;
+            const message = chunk.choices?.[0]?.message;
+            const content = chunkContent(chunk);
+            if (content) {
+              this._fullContent += content;
+            }
+
+            // Per-chunk queues, drained by process() after each yield
+            this._toolCallDeltas = [];
+            this._pendingToolCalls = [];
+
+            // Merge tool call fragments (agent endpoints send complete calls on message)
+            const toolCallDeltas: ToolCallDelta[] | undefined = delta?.tool_calls
+              || message?.tool_calls?.map((call, index) => ({ index, ...call }));
+            if (toolCallDeltas) {
+              for (const toolCallDelta of toolCallDeltas) {
+                this._mergeToolCallDelta(toolCallDelta);
+              }
+            }
+
+            if (chunk.choices?.[0]?.finish_reason) {
+              this._finishReason = chunk.choices[0].finish_reason;
+              this._completeToolCalls();
+            }
+
+            // Store usage if present
+            if (chunk.usage) {
+              this._usage = chunk.usage;
+            }
 
-          // Store usage if present
-          if (chunk.usage) {
-            this._usage = chunk.usage;
+            // Content streamed before the filter stopped the completion stays in fullContent
+            if (this._throwOnContentFilter && chunk.choices?.some(choice => choice.finish_reason === 'content_filter')) {
+              throw new ContentFilterError('Completion was stopped by the content filter');
+            }
+
+            yield chunk;
           }
 
-          yield chunk;
-        } catch (parseError) {
-          // Ignore parse errors for incomplete JSON
-          continue;
+          // A connection closed before any finish_reason was cut off as well
+          if (!this._finishReason && await this._reconnect(new StreamError('Stream ended before the completion finished'))) {
+            continue;
+          }
+          break;
+        } catch (error) {
+          if (error instanceof ContentFilterError || !(await this._reconnect(error as Error))) {
+            throw error;
+          }
         }
       }
+
+      completed = true;
     } catch (error) {
+      // Timeouts, aborts and content filter stops keep their own error class
+      if (error instanceof LunabyError) {
+        throw error;
+      }
       throw new StreamError('Error reading stream', error as Error);
+    } finally {
+      this._completeToolCalls();
+
+      if (completed) {
+        for (const listener of this._completeListeners.splice(0)) {
+          listener(this);
+        }
+      }
+    }
+  }
+
+  /**
+   * Swap in a new connection from the resumer. Events cut off by the drop were never
+   * dispatched by the parser, so the new connection picks up after the last complete one.
+   */
+  private async _reconnect(error: Error): Promise<boolean> {
+    if (!this._resume || this._abortController?.signal.aborted) {
+      return false;
+    }
+
+    const next = await this._resume({
+      error,
+      lastEventId: this._lastEventId,
+      retry: this._retry,
+      content: this._fullContent,
+      toolCalls: this.toolCalls,
+      reconnects: this._reconnects,
+    });
+    if (!next) {
+      return false;
+    }
+
+    this._stream = next.stream;
+    this._abortController = next.abortController || this._abortController;
+    this._reconnects++;
+    return true;
+  }
+
+  /**
+   * Merge a tool call fragment into the call at the same index
+   */
+  private _mergeToolCallDelta(delta: ToolCallDelta): void {
+    let toolCall = this._toolCalls.get(delta.index);
+
+    if (!toolCall) {
+      // Calls are streamed one after another, so a new index closes the earlier ones
+      this._completeToolCalls(delta.index);
+      toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } };
+      this._toolCalls.set(delta.index, toolCall);
+    }
+
+    if (delta.id) {
+      toolCall.id = delta.id;
+    }
+    if (delta.type) {
+      toolCall.type = delta.type;
+    }
+    if (delta.function?.name) {
+      toolCall.function.name += delta.function.name;
+    }
+    if (delta.function?.arguments) {
+      toolCall.function.arguments += delta.function.arguments;
+    }
+
+    this._toolCallDeltas.push({ delta, snapshot: toolCall });
+  }
+
+  /**
+   * Mark tool calls below the given index (all by default) as complete
+   */
+  private _completeToolCalls(beforeIndex: number = Infinity): void {
+    for (const [index, toolCall] of this._toolCalls) {
+      if (index < beforeIndex && !this._completedToolCalls.has(index)) {
+        this._completedToolCalls.add(index);
+        this._pendingToolCalls.push(toolCall);
+      }
     }
   }
 
+  /**
+   * Re-encode the chunks as server-sent events (ending with `data: [DONE]`) or NDJSON,
+   * e.g. to proxy the stream through a Fetch `Response` or a Node `http` response
+   */
+  toReadableStream(format: ChatStreamFormat = 'sse'): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return this._encode(
+      chunk => encoder.encode(format === 'sse' ? `data: ${JSON.stringify(chunk)}\n\n` : `${JSON.stringify(chunk)}\n`),
+      format === 'sse' ? encoder.encode('data: [DONE]\n\n') : undefined
+    );
+  }
+
+  /**
+   * Stream only the content deltas as UTF-8 text
+   */
+  toTextStream(): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return this._encode(chunk => {
+      const content = chunkContent(chunk);
+      return content ? encoder.encode(content) : undefined;
+    });
+  }
+
+  /**
+   * Split into two independent streams. This stream is read once (with its
+   * reconnects and content filter checks) and both copies see every chunk.
+   */
+  tee(): [ChatStream, ChatStream] {
+    const [first, second] = this.toReadableStream('sse').tee();
+
+    return [
+      new ChatStream(first, this._abortController, this.cached),
+      new ChatStream(second, this._abortController, this.cached),
+    ];
+  }
+
+  /**
+   * Pull chunks on demand and encode them; chunks encoded to nothing are skipped.
+   * Cancelling the result aborts the request.
+   */
+  private _encode(
+    encode: (chunk: ChatCompletionChunk) => Uint8Array | undefined,
+    end?: Uint8Array
+  ): ReadableStream<Uint8Array> {
+    const iterator = this[Symbol.asyncIterator]();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          while (true) {
+            const { done, value } = await iterator.next();
+
+            if (done) {
+              if (end) controller.enqueue(end);
+              controller.close();
+              return;
+            }
+
+            const bytes = encode(value);
+            if (bytes) {
+              controller.enqueue(bytes);
+              return;
+            }
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: async () => {
+        this.abort();
+        await iterator.return(undefined).catch(() => {
+          // Already failed because of the abort
+        });
+      },
+    });
+  }
+
   async toContent(): Promise<string> {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     for await (const _ of this) {
@@ -138,21 +604,35 @@ export class ChatStream implements AsyncIterable<ChatCompletionChunk> {
   async process(callbacks: {
     onChunk?: (chunk: ChatCompletionChunk) => void;
     onContent?: (content: string, accumulated: string) => void;
+    onToolCallDelta?: (delta: ToolCallDelta, snapshot: ToolCall) => void;
+    onToolCall?: (toolCall: ToolCall) => void;
     onDone?: (fullContent: string, usage?: ChatCompletionChunk['usage']) => void;
     onError?: (error: Error) => void;
   }): Promise<string> {
+    const flushToolCalls = () => {
+      for (const { delta, snapshot } of this._toolCallDeltas.splice(0)) {
+        callbacks.onToolCallDelta?.(delta, snapshot);
+      }
+      for (const toolCall of this._pendingToolCalls.splice(0)) {
+        callbacks.onToolCall?.(toolCall);
+      }
+    };
+
     try {
       for await (const chunk of this) {
         callbacks.onChunk?.(chunk);
 
-        const delta = chunk.choices?.[0]?.delta;
-        const message = (chunk.choices?.[0] as any)?.message;
-        const content = delta?.content || message?.content;
+        const content = chunkContent(chunk);
         if (content) {
           callbacks.onContent?.(content, this._fullContent);
         }
+
+        flushToolCalls();
       }
 
+      // Calls still open when the stream ended are completed by the iterator
+      flushToolCalls();
+
       callbacks.onDone?.(this._fullContent, this._usage);
       return this._fullContent;
     } catch (error) {
@@ -162,11 +642,18 @@ export class ChatStream implements AsyncIterable<ChatCompletionChunk> {
   }
 }
 
+function chunkContent(chunk: ChatCompletionChunk): string {
+  const delta = chunk.choices?.[0]?.delta;
+  const message = chunk.choices?.[0]?.message;
+  return contentToText(delta?.content || message?.content);
+}
+
 export class ChatResponse<T> {
   constructor(
     public readonly data: T,
     public readonly headers: Headers,
-    public readonly status: number
+    public readonly status: number,
+    public readonly cached: boolean = false
   ) {}
 
   getHeader(name: string): string | null {
@@ -0,0 +1,87 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { CassetteMismatchError, createRecordingFetch, normalizeBody } from './cassette.js';
+import { MockTransport } from './mock-transport.js';
+import type { Cassette } from './cassette.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'lunaby-cassette-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('createRecordingFetch', () => {
+  it('records JSON and streamed responses, then replays them offline', async () => {
+    const cassette = join(dir, 'chat.json');
+    const transport = new MockTransport();
+    transport.queueChatCompletion('recorded');
+    transport.queueStream(['str', 'eam']);
+
+    const recording = createRecordingFetch({ cassette, fetch: transport.fetch });
+    const recorder = new Lunaby({ apiKey: 'secret', fetch: recording });
+    expect(recording.mode).toBe('record');
+    await recorder.chat.create([{ role: 'user', content: 'hi' }]);
+    expect(await (await recorder.chat.createStream([{ role: 'user', content: 'go' }])).toContent()).toBe('stream');
+    await recording.save();
+
+    const saved = JSON.parse(await readFile(cassette, 'utf8')) as Cassette;
+    expect(saved.interactions).toHaveLength(2);
+    expect(saved.interactions[0].request.headers.authorization).toBe('[REDACTED]');
+    expect(saved.interactions[1].response.chunks?.map(chunk => chunk.data).join('')).toContain('data: [DONE]');
+
+    const replaying = createRecordingFetch({ cassette });
+    const replayer = new Lunaby({ apiKey: 'other', fetch: replaying });
+    expect(replaying.mode).toBe('replay');
+    const stream = await replayer.chat.createStream([{ role: 'user', content: 'go' }]);
+    const response = await replayer.chat.create([{ role: 'user', content: 'hi' }]);
+
+    expect(await stream.toContent()).toBe('stream');
+    expect(response.data.choices[0].message.content).toBe('recorded');
+  });
+
+  it('fails unmatched requests with a diff against the closest recording', async () => {
+    const cassette = join(dir, 'mismatch.json');
+    const transport = new MockTransport();
+    transport.queueChatCompletion('ok');
+    await new Lunaby({ apiKey: 'k', fetch: createRecordingFetch({ cassette, fetch: transport.fetch }) })
+      .chat.create([{ role: 'user', content: 'hello' }]);
+
+    const replayer = new Lunaby({ apiKey: 'k', fetch: createRecordingFetch({ cassette }), maxRetries: 0 });
+    const error = await replayer.chat.create([{ role: 'user', content: 'goodbye' }]).catch(e => e);
+
+    expect(error.cause ?? error).toBeInstanceOf(CassetteMismatchError);
+    const message = (error.cause ?? error).message as string;
+    expect(message).toContain('-       "content": "hello",');
+    expect(message).toContain('+       "content": "goodbye",');
+  });
+
+  it('serializes concurrent saves', async () => {
+    const cassette = join(dir, 'concurrent.json');
+    const transport = new MockTransport();
+    for (let i = 0; i < 4; i++) {
+      transport.queueImage('aW1n');
+    }
+    const client = new Lunaby({ apiKey: 'k', fetch: createRecordingFetch({ cassette, fetch: transport.fetch }) });
+
+    await Promise.all([0, 1, 2, 3].map(i => client.images.generate(`prompt ${i}`)));
+
+    const saved = JSON.parse(await readFile(cassette, 'utf8')) as Cassette;
+    expect(saved.interactions).toHaveLength(4);
+    expect(await readdir(dir)).toEqual(['concurrent.json']);
+  });
+});
+
+describe('normalizeBody', () => {
+  it('ignores key order, whitespace and the given fields', () => {
+    expect(normalizeBody('{"b":1,"a":{"d":2,"c":3},"user":"x"}', ['user']))
+      .toBe(normalizeBody('{ "a": { "c": 3, "d": 2 }, "b": 1 }'));
+    expect(normalizeBody('not json')).toBe('not json');
+  });
+});
@@ -0,0 +1,356 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { FetchFunction } from '../types.js';
+
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface CassetteChunk {
+  data: string;
+  /** Milliseconds since the previous chunk (or since the response headers for the first) */
+  delay: number;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: string;
+  chunks?: CassetteChunk[];
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface RecordingFetchOptions {
+  /** Path of the cassette JSON file */
+  cassette: string;
+  /** 'auto' replays when the cassette exists and records otherwise (default) */
+  mode?: CassetteMode;
+  /** Underlying fetch used while recording */
+  fetch?: FetchFunction;
+  /** Request headers replaced with [REDACTED] in the cassette (Authorization is always redacted) */
+  redactHeaders?: string[];
+  /** Top-level body fields ignored when matching requests, e.g. 'user' */
+  ignoreBodyFields?: string[];
+  /** Reproduce the recorded gaps between stream chunks on replay (default false) */
+  replayTiming?: boolean;
+}
+
+export interface RecordingFetch extends FetchFunction {
+  readonly mode: Exclude<CassetteMode, 'auto'>;
+  /**
+   * Write the cassette to disk once streams still being recorded have ended; called
+   * automatically after each recorded interaction
+   */
+  save(): Promise<void>;
+}
+
+const CASSETTE_VERSION = 1;
+const REDACTED = '[REDACTED]';
+
+export class CassetteMismatchError extends Error {
+  readonly request: CassetteRequest;
+
+  constructor(message: string, request: CassetteRequest) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.request = request;
+  }
+}
+
+/**
+ * Create a fetch wrapper that records real traffic to a cassette file, or replays it offline.
+ *
+ * @example
+ * const fetch = createRecordingFetch({ cassette: '__cassettes__/chat.json' });
+ * const client = new Lunaby({ fetch });
+ */
+export function createRecordingFetch(options: RecordingFetchOptions): RecordingFetch {
+  const {
+    cassette: cassettePath,
+    fetch: baseFetch = globalThis.fetch,
+    ignoreBodyFields = [],
+    replayTiming = false,
+  } = options;
+  const mode = options.mode === 'record' || options.mode === 'replay'
+    ? options.mode
+    : existsSync(cassettePath) ? 'replay' : 'record';
+  const redactHeaders = new Set(['authorization', ...(options.redactHeaders || []).map(name => name.toLowerCase())]);
+
+  let cassette: Cassette | undefined;
+  const used = new Set<number>();
+
+  const load = async (): Promise<Cassette> => {
+    if (!cassette) {
+      cassette = mode === 'replay'
+        ? JSON.parse(await readFile(cassettePath, 'utf8')) as Cassette
+        : { version: CASSETTE_VERSION, interactions: [] };
+    }
+    return cassette;
+  };
+
+  let saving = Promise.resolve();
+  const recordingStreams = new Set<Promise<void>>();
+
+  // Writes run one at a time, since they share the temp file
+  const write = (): Promise<void> => {
+    const run = saving.then(async () => {
+      const data = await load();
+      await mkdir(dirname(cassettePath), { recursive: true });
+
+      // Write then rename so a concurrent replay never reads a half-written file
+      const tempPath = `${cassettePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(data, null, 2) + '\n');
+      await rename(tempPath, cassettePath);
+    });
+    saving = run.catch(() => undefined);
+    return run;
+  };
+
+  const save = async (): Promise<void> => {
+    await Promise.all(recordingStreams);
+    return write();
+  };
+
+  const recordingFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const request: CassetteRequest = {
+      method: init.method || 'GET',
+      path: new URL(url).pathname,
+      headers: redact(init.headers, redactHeaders),
+      ...(typeof init.body === 'string' && { body: init.body }),
+    };
+
+    const data = await load();
+
+    if (mode === 'replay') {
+      const key = matchKey(request, ignoreBodyFields);
+      const index = data.interactions.findIndex(
+        (interaction, i) => !used.has(i) && matchKey(interaction.request, ignoreBodyFields) === key
+      );
+
+      if (index === -1) {
+        throw new CassetteMismatchError(describeMismatch(request, data.interactions, ignoreBodyFields), request);
+      }
+
+      used.add(index);
+      return replay(data.interactions[index].response, replayTiming, init.signal);
+    }
+
+    const response = await baseFetch(input, init);
+    const recorded: CassetteResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: headersToObject(response.headers),
+    };
+    const interaction: CassetteInteraction = { request, response: recorded };
+
+    if (!response.body || !isEventStream(response)) {
+      recorded.body = await response.text();
+      data.interactions.push(interaction);
+      await write();
+      return new Response(recorded.body || null, response);
+    }
+
+    // Record the stream chunk by chunk while passing it through to the caller. The body is read
+    // to the end even when the caller stops early, e.g. at `data: [DONE]`, so the recording completes.
+    recorded.chunks = [];
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let last = Date.now();
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const pump = async () => {
+          try {
+            while (true) {
+              const { done, value } = await reader.read();
+              if (done) {
+                data.interactions.push(interaction);
+                await write();
+                controller.close();
+                return;
+              }
+
+              const now = Date.now();
+              recorded.chunks!.push({ data: decoder.decode(value, { stream: true }), delay: now - last });
+              last = now;
+              controller.enqueue(value);
+            }
+          } catch (error) {
+            controller.error(error);
+          }
+        };
+        const recording = pump();
+        recordingStreams.add(recording);
+        void recording.finally(() => recordingStreams.delete(recording));
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(stream, response);
+  };
+
+  return Object.assign(recordingFetch, { mode, save }) as RecordingFetch;
+}
+
+/**
+ * Normalize a JSON body so key order and whitespace do not affect matching
+ */
+export function normalizeBody(body: string | undefined, ignoreFields: string[] = []): string {
+  if (!body) {
+    return '';
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      for (const field of ignoreFields) {
+        delete parsed[field];
+      }
+    }
+    return JSON.stringify(sortKeys(parsed), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function matchKey(request: CassetteRequest, ignoreFields: string[]): string {
+  return `${request.method} ${request.path}\n${normalizeBody(request.body, ignoreFields)}`;
+}
+
+function describeMismatch(request: CassetteRequest, interactions: CassetteInteraction[], ignoreFields: string[]): string {
+  const header = `No recorded interaction matches ${request.method} ${request.path}`;
+  const candidates = interactions.filter(
+    interaction => interaction.request.method === request.method && interaction.request.path === request.path
+  );
+
+  if (candidates.length === 0) {
+    return `${header} (the cassette has no interactions for this endpoint)`;
+  }
+
+  const actual = normalizeBody(request.body, ignoreFields);
+  const expected = normalizeBody(candidates[0].request.body, ignoreFields);
+
+  return `${header}. Closest recorded body (- recorded, + actual):\n${diffLines(expected, actual)}`;
+}
+
+/**
+ * Minimal line diff based on the longest common subsequence
+ */
+function diffLines(expected: string, actual: string): string {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function replay(recorded: CassetteResponse, replayTiming: boolean, signal?: AbortSignal | null): Response {
+  const init = { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers };
+
+  if (!recorded.chunks) {
+    return new Response(recorded.body || null, init);
+  }
+
+  const encoder = new TextEncoder();
+  const chunks = [...recorded.chunks];
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (!chunk) {
+        controller.close();
+        return;
+      }
+
+      if (replayTiming && chunk.delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, chunk.delay));
+      }
+
+      if (signal?.aborted) {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        controller.error(error);
+        return;
+      }
+
+      controller.enqueue(encoder.encode(chunk.data));
+    },
+  });
+
+  return new Response(stream, init);
+}
+
+function redact(headers: HeadersInit | undefined, redactHeaders: Set<string>): Record<string, string> {
+  const result = headersToObject(new Headers(headers));
+  for (const name of Object.keys(result)) {
+    if (redactHeaders.has(name)) {
+      result[name] = REDACTED;
+    }
+  }
+  return result;
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+function isEventStream(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes('text/event-stream');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
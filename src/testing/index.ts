@@ -0,0 +1,24 @@
+export {
+  MockTransport,
+  chatCompletion,
+  contentChunk,
+  toolCallChunks,
+  type MockResponseOptions,
+  type MockStreamOptions,
+  type MockErrorOptions,
+  type RecordedRequest,
+} from './mock-transport.js';
+
+export {
+  createRecordingFetch,
+  normalizeBody,
+  CassetteMismatchError,
+  type Cassette,
+  type CassetteChunk,
+  type CassetteInteraction,
+  type CassetteMode,
+  type CassetteRequest,
+  type CassetteResponse,
+  type RecordingFetch,
+  type RecordingFetchOptions,
+} from './cassette.js';
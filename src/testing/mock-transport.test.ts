@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from '../client.js';
+import { ConnectionError, RateLimitError } from '../errors.js';
+import { MockTransport, chatCompletion, contentChunk } from './mock-transport.js';
+
+function setup() {
+  const transport = new MockTransport();
+  const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, maxRetries: 0 });
+  return { transport, client };
+}
+
+describe('MockTransport', () => {
+  it('serves queued responses in order and records the requests', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('first');
+    transport.queueImage(['aW1hZ2U=']);
+
+    const chat = await client.chat.create([{ role: 'user', content: 'hi' }], { temperature: 0.5 });
+    const image = await client.images.generate('a fox');
+
+    expect(chat.data.choices[0].message.content).toBe('first');
+    expect(image.data.data).toEqual([{ b64_json: 'aW1hZ2U=' }]);
+    expect(transport.requests.map(request => `${request.method} ${request.path}`))
+      .toEqual(['POST /v1/chat/completions', 'POST /v1/images/generations']);
+    expect(transport.requests[0].body).toMatchObject({ temperature: 0.5 });
+    expect(transport.requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(transport.pending).toBe(0);
+  });
+
+  it('matches responses queued for a path', async () => {
+    const { transport, client } = setup();
+    transport.queueImage('aW1n', { path: '/images/generations' });
+    transport.queueChatCompletion('chat', { path: '/chat/completions' });
+
+    const chat = await client.chat.create([{ role: 'user', content: 'hi' }]);
+
+    expect(chat.data.choices[0].message.content).toBe('chat');
+    expect(transport.pending).toBe(1);
+  });
+
+  it('streams chunks and the [DONE] event', async () => {
+    const { transport, client } = setup();
+    transport.queueStream(['Hel', contentChunk('lo', 'stop')], { chunkDelay: 1 });
+
+    const stream = await client.chat.createStream([{ role: 'user', content: 'hi' }]);
+    const chunks = await stream.toArray();
+
+    expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual(['Hel', 'lo']);
+    expect(stream.fullContent).toBe('Hello');
+  });
+
+  it('queues error statuses with Retry-After and network failures', async () => {
+    const { transport, client } = setup();
+    transport.queueError(429, { error: 'slow down' }, { retryAfter: 7 });
+    transport.queueNetworkError();
+
+    const rateLimited = await client.chat.create([{ role: 'user', content: 'hi' }]).catch(e => e);
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited.retryAfter).toBe(7);
+
+    await expect(client.chat.create([{ role: 'user', content: 'hi' }])).rejects.toBeInstanceOf(ConnectionError);
+  });
+
+  it('fails clearly when nothing is queued', async () => {
+    const { transport } = setup();
+
+    await expect(transport.fetch('https://api.lunie.dev/v1/models')).rejects.toThrow('MockTransport: no response queued for GET /v1/models');
+  });
+
+  it('builds complete responses with overrides', () => {
+    expect(chatCompletion('x', { model: 'lunaby' })).toMatchObject({
+      model: 'lunaby',
+      choices: [{ message: { role: 'assistant', content: 'x' }, finish_reason: 'stop' }],
+    });
+  });
+});
@@ -0,0 +1,362 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  FetchFunction,
+  ImageGenerationResponse,
+  ToolCall,
+} from '../types.js';
+
+export interface MockResponseOptions {
+  /** Only serve this response for requests whose path ends with the given value */
+  path?: string;
+  /** Milliseconds to wait before responding */
+  delay?: number;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+export interface MockStreamOptions extends MockResponseOptions {
+  /** Milliseconds to wait between chunks */
+  chunkDelay?: number;
+  /** Send the terminating `data: [DONE]` event (default true) */
+  done?: boolean;
+  /** Give each chunk an `id:` field, counting up from this number */
+  firstEventId?: number;
+  /** Drop the connection after this many events, partway through the next one */
+  dropAfter?: number;
+}
+
+export interface MockErrorOptions extends MockResponseOptions {
+  /** Sets the Retry-After header, in seconds or as an HTTP-date */
+  retryAfter?: number | string;
+}
+
+export interface RecordedRequest {
+  url: string;
+  path: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw body when it is not JSON */
+  body: unknown;
+  rawBody?: string;
+}
+
+type MockHandler = (request: RecordedRequest, signal?: AbortSignal | null) => Promise<Response>;
+
+interface QueuedResponse {
+  path?: string;
+  delay?: number;
+  handler: MockHandler;
+}
+
+/**
+ * Scriptable fetch replacement for testing code built on the Lunaby client.
+ * Responses are served in the order they were queued.
+ *
+ * @example
+ * const transport = new MockTransport();
+ * transport.queueChatCompletion('Hello!');
+ * const client = new Lunaby({ apiKey: 'test', fetch: transport.fetch });
+ */
+export class MockTransport {
+  readonly requests: RecordedRequest[] = [];
+
+  private _queue: QueuedResponse[] = [];
+
+  /**
+   * Fetch function to pass as the client's `fetch` option
+   */
+  readonly fetch: FetchFunction = async (input, init = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const request: RecordedRequest = {
+      url,
+      path: new URL(url).pathname,
+      method: init.method || 'GET',
+      headers: normalizeHeaders(init.headers),
+      body: undefined,
+    };
+
+    if (typeof init.body === 'string') {
+      request.rawBody = init.body;
+      try {
+        request.body = JSON.parse(init.body);
+      } catch {
+        request.body = init.body;
+      }
+    } else {
+      request.body = init.body;
+    }
+
+    this.requests.push(request);
+
+    const index = this._queue.findIndex(entry => !entry.path || request.path.endsWith(entry.path));
+    if (index === -1) {
+      throw new Error(`MockTransport: no response queued for ${request.method} ${request.path}`);
+    }
+
+    const [entry] = this._queue.splice(index, 1);
+
+    if (entry.delay) {
+      await sleep(entry.delay, init.signal);
+    }
+    throwIfAborted(init.signal);
+
+    return entry.handler(request, init.signal);
+  };
+
+  /**
+   * Number of queued responses not yet served
+   */
+  get pending(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Most recent recorded request
+   */
+  get lastRequest(): RecordedRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  /**
+   * Queue a chat completion, from a content string or a partial response
+   */
+  queueChatCompletion(response: string | Partial<ChatCompletionResponse>, options: MockResponseOptions = {}): this {
+    const body = typeof response === 'string' ? chatCompletion(response) : { ...chatCompletion(''), ...response };
+    return this.queueJSON(body, options);
+  }
+
+  /**
+   * Queue an SSE stream of chunks. Strings are content deltas; raw objects are sent as-is.
+   */
+  queueStream(chunks: Array<string | Partial<ChatCompletionChunk>>, options: MockStreamOptions = {}): this {
+    const { chunkDelay, done = true, firstEventId, dropAfter, status = 200, headers } = options;
+    const events = chunks.map((chunk, i) => {
+      const id = firstEventId !== undefined ? `id: ${firstEventId + i}\n` : '';
+      return `${id}data: ${JSON.stringify(typeof chunk === 'string' ? contentChunk(chunk) : chunk)}\n\n`;
+    });
+    if (done) {
+      events.push('data: [DONE]\n\n');
+    }
+
+    return this._enqueue(options, async (_request, signal) => new Response(
+      eventStream(events, chunkDelay, signal, dropAfter),
+      { status, headers: { 'Content-Type': 'text/event-stream', ...headers } }
+    ));
+  }
+
+  /**
+   * Queue an image generation result, from base64 strings or a partial response
+   */
+  queueImage(response: string | string[] | Partial<ImageGenerationResponse>, options: MockResponseOptions = {}): this {
+    const body: ImageGenerationResponse = typeof response === 'string' || Array.isArray(response)
+      ? { created: nowSeconds(), data: [response].flat().map(b64_json => ({ b64_json })) }
+      : { created: nowSeconds(), data: [], ...response };
+    return this.queueJSON(body, options);
+  }
+
+  /**
+   * Queue an error status with a JSON error body
+   */
+  queueError(
+    status: number,
+    body: { error?: string; message?: string; details?: Record<string, unknown> } = {},
+    options: MockErrorOptions = {}
+  ): this {
+    const { retryAfter, headers } = options;
+    return this.queueJSON({ error: body.error ?? `HTTP ${status}`, ...body }, {
+      ...options,
+      status,
+      headers: {
+        ...(retryAfter !== undefined && { 'Retry-After': String(retryAfter) }),
+        ...headers,
+      },
+    });
+  }
+
+  /**
+   * Queue a network failure, thrown the way undici reports unreachable hosts
+   */
+  queueNetworkError(message: string = 'fetch failed', options: Pick<MockResponseOptions, 'path' | 'delay'> = {}): this {
+    return this._enqueue(options, async () => {
+      throw new TypeError(message);
+    });
+  }
+
+  /**
+   * Queue any JSON body
+   */
+  queueJSON(body: unknown, options: MockResponseOptions = {}): this {
+    const { status = 200, headers } = options;
+    return this._enqueue(options, async () => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    }));
+  }
+
+  /**
+   * Queue a custom handler that builds the response from the recorded request
+   */
+  queueHandler(
+    handler: (request: RecordedRequest, signal?: AbortSignal | null) => Response | Promise<Response>,
+    options: Pick<MockResponseOptions, 'path' | 'delay'> = {}
+  ): this {
+    return this._enqueue(options, async (request, signal) => handler(request, signal));
+  }
+
+  /**
+   * Clear queued responses and recorded requests
+   */
+  reset(): void {
+    this._queue = [];
+    this.requests.length = 0;
+  }
+
+  private _enqueue(options: Pick<MockResponseOptions, 'path' | 'delay'>, handler: MockHandler): this {
+    this._queue.push({ path: options.path, delay: options.delay, handler });
+    return this;
+  }
+}
+
+/**
+ * Build a complete chat completion response
+ */
+export function chatCompletion(content: string, overrides: Partial<ChatCompletionResponse> = {}): ChatCompletionResponse {
+  return {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    created: nowSeconds(),
+    model: 'lunaby-pro',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    ...overrides,
+  };
+}
+
+/**
+ * Build a stream chunk carrying a content delta
+ */
+export function contentChunk(content: string, finishReason: ChatCompletionChunk['choices'][number]['finish_reason'] = null): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion.chunk',
+    created: nowSeconds(),
+    model: 'lunaby-pro',
+    choices: [{ index: 0, delta: { content }, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Split tool calls into the fragment chunks a streaming response would send
+ */
+export function toolCallChunks(toolCalls: ToolCall[], argumentChunkSize: number = 8): ChatCompletionChunk[] {
+  const chunks: ChatCompletionChunk[] = [];
+  const base = { id: 'chatcmpl-mock', object: 'chat.completion.chunk' as const, created: nowSeconds(), model: 'lunaby-pro' };
+
+  toolCalls.forEach((toolCall, index) => {
+    chunks.push({
+      ...base,
+      choices: [{
+        index: 0,
+        delta: { tool_calls: [{ index, id: toolCall.id, type: 'function', function: { name: toolCall.function.name, arguments: '' } }] },
+        finish_reason: null,
+      }],
+    });
+
+    const args = toolCall.function.arguments;
+    for (let offset = 0; offset < args.length; offset += argumentChunkSize) {
+      chunks.push({
+        ...base,
+        choices: [{
+          index: 0,
+          delta: { tool_calls: [{ index, function: { arguments: args.slice(offset, offset + argumentChunkSize) } }] },
+          finish_reason: null,
+        }],
+      });
+    }
+  });
+
+  chunks.push({ ...base, choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] });
+  return chunks;
+}
+
+function eventStream(
+  events: string[],
+  chunkDelay: number | undefined,
+  signal?: AbortSignal | null,
+  dropAfter?: number
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= events.length) {
+        controller.close();
+        return;
+      }
+
+      if (chunkDelay && index > 0) {
+        try {
+          await sleep(chunkDelay, signal);
+        } catch (error) {
+          controller.error(error);
+          return;
+        }
+      }
+
+      if (index === dropAfter) {
+        const event = events[index] || '';
+        controller.enqueue(encoder.encode(event.slice(0, Math.floor(event.length / 2))));
+        controller.error(new TypeError('terminated'));
+        return;
+      }
+
+      controller.enqueue(encoder.encode(events[index++]));
+    },
+  });
+}
+
+function normalizeHeaders(headers: HeadersInit | undefined): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    normalized[key] = value;
+  });
+  return normalized;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
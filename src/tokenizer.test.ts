@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Lunaby } from './client.js';
+import { ValidationError } from './errors.js';
+import { MockTransport } from './testing/index.js';
+import { estimateMessageTokens, estimateTokens, getModelLimits, registerModelLimits } from './tokenizer.js';
+import type { ChatMessage } from './types.js';
+
+describe('estimateTokens', () => {
+  it('counts words by length and CJK characters and punctuation one each', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('hello world')).toBe(4);
+    expect(estimateTokens('Hi, you!')).toBe(4);
+    expect(estimateTokens('你好世界')).toBe(4);
+    expect(estimateTokens('12345')).toBe(2);
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('adds per-message overhead, names, tool calls, image parts and tool definitions', () => {
+    const base = estimateMessageTokens([{ role: 'user', content: 'hi' }]);
+    expect(base).toBe(3 + 4 + 1);
+
+    expect(estimateMessageTokens([{ role: 'user', content: 'hi', name: 'ada' }])).toBe(base + 2);
+    expect(estimateMessageTokens([
+      { role: 'user', content: [{ type: 'text', text: 'hi' }, { type: 'image_url', image_url: { url: 'x', detail: 'low' } }] },
+    ])).toBe(base + 85);
+
+    const withTool = estimateMessageTokens(
+      [{ role: 'user', content: 'hi' }],
+      [{ type: 'function', function: { name: 'f' } }]
+    );
+    expect(withTool).toBe(base + 8 + estimateTokens('{"name":"f"}'));
+  });
+});
+
+describe('context-window preflight', () => {
+  registerModelLimits('preflight-test', { contextWindow: 100, maxOutputTokens: 50 });
+  const messages: ChatMessage[] = [{ role: 'user', content: 'word '.repeat(40) }];
+  const promptTokens = estimateMessageTokens(messages);
+
+  function setup() {
+    const transport = new MockTransport();
+    const client = new Lunaby({ apiKey: 'test-key', fetch: transport.fetch, defaultModel: 'preflight-test' });
+    return { transport, client };
+  }
+
+  it('knows the built-in and registered limits', () => {
+    expect(getModelLimits('lunaby-pro')?.contextWindow).toBe(131072);
+    expect(getModelLimits('preflight-test')).toEqual({ contextWindow: 100, maxOutputTokens: 50 });
+    expect(getModelLimits('unknown-model')).toBeUndefined();
+  });
+
+  it('throws before sending when prompt + max_tokens exceeds the window', async () => {
+    const { transport, client } = setup();
+
+    const error = await client.chat.create(messages, { max_tokens: 100, preflight: 'error' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain(`plus max_tokens (100) exceeds the 100 token context window of preflight-test`);
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it('lowers max_tokens to fit in adjust mode', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('ok');
+
+    await client.chat.create(messages, { max_tokens: 100, preflight: 'adjust' });
+
+    expect(transport.lastRequest?.body).toMatchObject({ max_tokens: 100 - promptTokens });
+  });
+
+  it('sends unchanged when preflight is off', async () => {
+    const { transport, client } = setup();
+    transport.queueChatCompletion('ok');
+
+    await client.chat.create(messages, { max_tokens: 100 });
+
+    expect(transport.lastRequest?.body).toMatchObject({ max_tokens: 100 });
+  });
+});
@@ -0,0 +1,89 @@
+import type { ChatContentPart, ChatMessage, Model, ModelLimits, ToolDefinition } from './types.js';
+
+// Overheads follow the usual chat template layout: role and separators per
+// message, plus the tokens that prime the assistant reply.
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_NAME = 1;
+const TOKENS_PER_REPLY = 3;
+const TOKENS_PER_TOOL = 8;
+
+// Fixed costs for image parts, by detail level
+const IMAGE_TOKENS_LOW = 85;
+const IMAGE_TOKENS_HIGH = 765;
+
+const WIDE_CHARACTER = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]|[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'lunaby': { contextWindow: 32768, maxOutputTokens: 4096 },
+  'lunaby-pro': { contextWindow: 131072, maxOutputTokens: 8192 },
+  'lunaby-vision': { contextWindow: 32768, maxOutputTokens: 4096 },
+};
+
+/**
+ * Estimate the token count of a string. Words are counted as roughly one token
+ * per four characters, CJK characters and punctuation as one token each.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const piece = match[0];
+    tokens += WIDE_CHARACTER.test(piece) ? 1 : Math.max(1, Math.ceil(piece.length / 4));
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the prompt tokens of a chat request, including per-message overhead and tool definitions
+ */
+export function estimateMessageTokens(messages: ChatMessage[], tools?: ToolDefinition[]): number {
+  let tokens = TOKENS_PER_REPLY;
+
+  for (const message of messages) {
+    tokens += TOKENS_PER_MESSAGE;
+    tokens += typeof message.content === 'string'
+      ? estimateTokens(message.content)
+      : message.content.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+
+    if (message.name) {
+      tokens += TOKENS_PER_NAME + estimateTokens(message.name);
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+      tokens += estimateTokens(toolCall.function.name) + estimateTokens(toolCall.function.arguments);
+    }
+  }
+
+  for (const tool of tools || []) {
+    tokens += TOKENS_PER_TOOL + estimateTokens(JSON.stringify(tool.function));
+  }
+
+  return tokens;
+}
+
+function estimatePartTokens(part: ChatContentPart): number {
+  switch (part.type) {
+    case 'text':
+      return estimateTokens(part.text);
+    case 'image_url':
+      return part.image_url.detail === 'low' ? IMAGE_TOKENS_LOW : IMAGE_TOKENS_HIGH;
+    case 'image_base64':
+      return part.image_base64.detail === 'low' ? IMAGE_TOKENS_LOW : IMAGE_TOKENS_HIGH;
+  }
+}
+
+/**
+ * Context window and output limits for a model, if known
+ */
+export function getModelLimits(model: Model): ModelLimits | undefined {
+  return MODEL_LIMITS[model];
+}
+
+/**
+ * Register or override the limits of a model, e.g. for a fine-tune or a newer release
+ */
+export function registerModelLimits(model: Model, limits: ModelLimits): void {
+  MODEL_LIMITS[model] = limits;
+}
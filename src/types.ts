@@ -1,5 +1,8 @@
 /// <reference lib="dom" />
 
+import type { CircuitBreaker } from './retry.js';
+import type { RequestScheduler } from './scheduler.js';
+
 export type Model = 
   | 'lunaby'
   | 'lunaby-pro'
@@ -21,6 +24,16 @@ export interface ToolCall {
   };
 }
 
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface ToolDefinition {
   type: 'function';
   function: {
@@ -30,14 +43,103 @@ export interface ToolDefinition {
   };
 }
 
+export type ImageDetail = 'auto' | 'low' | 'high';
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageURLContentPart {
+  type: 'image_url';
+  image_url: {
+    url: string;
+    detail?: ImageDetail;
+  };
+}
+
+export interface ImageBase64ContentPart {
+  type: 'image_base64';
+  image_base64: {
+    data: string;
+    mime_type: string;
+    detail?: ImageDetail;
+  };
+}
+
+export type ChatContentPart = TextContentPart | ImageURLContentPart | ImageBase64ContentPart;
+
+export type ChatMessageContent = string | ChatContentPart[];
+
 export interface ChatMessage {
   role: MessageRole;
-  content: string;
+  content: ChatMessageContent;
   name?: string;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
 }
 
+export interface JSONSchema {
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  definitions?: Record<string, JSONSchema>;
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema | boolean>;
+  required?: string[];
+  additionalProperties?: JSONSchema | boolean;
+  items?: JSONSchema | boolean;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  anyOf?: Array<JSONSchema | boolean>;
+  oneOf?: Array<JSONSchema | boolean>;
+  allOf?: Array<JSONSchema | boolean>;
+  not?: JSONSchema | boolean;
+  [keyword: string]: unknown;
+}
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: JSONSchema;
+        strict?: boolean;
+      };
+    };
+
+export interface ModelLimits {
+  contextWindow: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Local context-window check before a chat request: 'error' throws a ValidationError,
+ * 'adjust' lowers max_tokens to fit
+ */
+export type PreflightMode = 'off' | 'error' | 'adjust';
+
 export interface ChatCompletionRequest {
   model: Model;
   messages: ChatMessage[];
@@ -51,18 +153,27 @@ export interface ChatCompletionRequest {
   user?: string;
   tools?: ToolDefinition[];
   tool_choice?: 'auto' | 'none';
+  response_format?: ResponseFormat;
 }
 
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter';
+
 export interface ChatCompletionChoice {
   index: number;
   message: ChatMessage;
-  finish_reason: 'stop' | 'length' | 'content_filter' | null;
+  finish_reason: FinishReason | null;
+}
+
+export interface ChatCompletionDelta extends Partial<Omit<ChatMessage, 'tool_calls'>> {
+  tool_calls?: ToolCallDelta[];
 }
 
 export interface ChatCompletionStreamChoice {
   index: number;
-  delta: Partial<ChatMessage>;
-  finish_reason: 'stop' | 'length' | 'content_filter' | null;
+  delta: ChatCompletionDelta;
+  /** Agent endpoints send the complete message instead of deltas */
+  message?: Partial<ChatMessage>;
+  finish_reason: FinishReason | null;
 }
 
 export interface TokenUsage {
@@ -89,6 +200,79 @@ export interface ChatCompletionChunk {
   usage?: TokenUsage;
 }
 
+export interface ModelCapabilities {
+  chat: boolean;
+  vision: boolean;
+  tools: boolean;
+  image_generation: boolean;
+}
+
+export interface ModelInfo {
+  id: string;
+  object: 'model';
+  created?: number;
+  owned_by?: string;
+  capabilities: ModelCapabilities;
+  context_length?: number;
+  max_output_tokens?: number;
+}
+
+export type EmbeddingEncodingFormat = 'float' | 'base64';
+
+export interface EmbeddingRequest {
+  model: Model;
+  input: string | string[];
+  dimensions?: number;
+  encoding_format?: EmbeddingEncodingFormat;
+  user?: string;
+}
+
+export interface EmbeddingData {
+  object: 'embedding';
+  index: number;
+  /** Float array, or little-endian float32 bytes in base64 */
+  embedding: number[] | string;
+}
+
+export interface EmbeddingResponse {
+  object: 'list';
+  data: EmbeddingData[];
+  model: string;
+  usage: TokenUsage;
+}
+
+export type ModerationCategory =
+  | 'harassment'
+  | 'harassment/threatening'
+  | 'hate'
+  | 'hate/threatening'
+  | 'illicit'
+  | 'self-harm'
+  | 'self-harm/intent'
+  | 'self-harm/instructions'
+  | 'sexual'
+  | 'sexual/minors'
+  | 'violence'
+  | 'violence/graphic';
+
+export interface ModerationRequest {
+  model?: Model;
+  input: string | string[];
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: Record<ModerationCategory, boolean>;
+  /** Confidence per category, from 0 to 1 */
+  category_scores: Record<ModerationCategory, number>;
+}
+
+export interface ModerationResponse {
+  id: string;
+  model: string;
+  results: ModerationResult[];
+}
+
 export interface ImageGenerationRequest {
   model?: Model;
   prompt: string;
@@ -114,9 +298,178 @@ export interface ImageGenerationResponse {
   usage?: TokenUsage;
 }
 
+export type ImageJobStatus = 'queued' | 'in_progress' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ImageJob {
+  id: string;
+  object: 'image.job';
+  status: ImageJobStatus;
+  created: number;
+  /** Fraction done from 0 to 1, when the server reports it */
+  progress?: number;
+  /** Set once the job has succeeded */
+  result?: ImageGenerationResponse;
+  /** Set when the job has failed */
+  error?: { message: string; code?: string };
+}
+
+/** The part of a job handle that survives JSON.stringify(), enough to resume waiting */
+export interface SerializedImageJob {
+  id: string;
+  status: ImageJobStatus;
+  created: number;
+  progress?: number;
+}
+
+/** One batch line: a chat completion body with a `custom_id`, or `{ custom_id, body }` */
+export type BatchRequestInput =
+  | ({ custom_id: string } & Partial<ChatCompletionRequest>)
+  | { custom_id: string; method?: string; url?: string; body: Partial<ChatCompletionRequest> };
+
+export interface BatchResultError {
+  message: string;
+  type?: string;
+  code?: string;
+  status?: number;
+}
+
+/** One line of batch output; failures are recorded inline with their error */
+export interface BatchResult {
+  custom_id: string;
+  status: 'succeeded' | 'failed';
+  /** Attempts made for the line, including retries */
+  attempts?: number;
+  response?: ChatCompletionResponse;
+  error?: BatchResultError;
+}
+
+export type BatchStatus =
+  | 'validating'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+/** A batch run by the server */
+export interface Batch {
+  id: string;
+  object: 'batch';
+  endpoint: string;
+  status: BatchStatus;
+  completion_window: string;
+  created_at: number;
+  completed_at?: number;
+  request_counts: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+  metadata?: Record<string, string>;
+}
+
 export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
-export interface LunabyClientOptions {
+/** JSON string, or multipart form data for file uploads */
+export type RequestBody = string | FormData;
+
+export interface MiddlewareRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: RequestBody;
+  /** Zero-based attempt number, incremented on every retry */
+  attempt: number;
+}
+
+export interface Middleware {
+  name?: string;
+  /** Inspect or modify the outgoing request, called once per attempt */
+  onRequest?: (request: MiddlewareRequest) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  /** Inspect or replace the response before it is checked and parsed */
+  onResponse?: (response: Response, request: MiddlewareRequest) => Response | void | Promise<Response | void>;
+  /** Observe network failures and aborts for an attempt */
+  onError?: (error: Error, request: MiddlewareRequest) => void | Promise<void>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive 5xx responses or network failures before the circuit opens (default 5) */
+  failureThreshold?: number;
+  /** Milliseconds to stay open before letting a trial request through (default 30000) */
+  resetTimeout?: number;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export type BackoffStrategy =
+  | 'exponential'
+  | 'decorrelated-jitter'
+  | 'constant'
+  | ((attempt: number, previousDelay: number) => number);
+
+export interface RetryPolicy {
+  maxRetries?: number;
+  /** Base delay in milliseconds (default 500) */
+  initialDelay?: number;
+  /** Upper bound for any delay, including server hints (default 8000) */
+  maxDelay?: number;
+  backoff?: BackoffStrategy;
+  /** Random jitter as a fraction of the delay for exponential and constant backoff (default 0.1) */
+  jitter?: number;
+  retryableStatusCodes?: number[];
+  /** Honor Retry-After and x-ratelimit-reset headers (default true) */
+  respectRetryAfter?: boolean;
+  /** Override the retry decision; return undefined to keep the default */
+  shouldRetry?: (error: Error, attempt: number) => boolean | undefined;
+  /** Options are turned into one breaker per client; per-request policies must pass a shared instance */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
+}
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface SchedulerOptions {
+  /** Maximum number of requests in flight at once */
+  maxConcurrent?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  /** Pause dispatching when the server reports the budget is exhausted (default true) */
+  pauseOnRateLimit?: boolean;
+  /** Estimate the token cost of a request body for the tokens-per-minute budget */
+  estimateTokens?: (body: string | undefined) => number;
+}
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  headers: Record<string, string>;
+  status: number;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  /** Defaults to an in-memory LRU store */
+  store?: CacheStore;
+  /** Time to live in milliseconds; entries never expire when omitted */
+  ttl?: number;
+  /** Capacity of the default in-memory store (default 500) */
+  maxEntries?: number;
+}
+
+export interface RequestCacheOptions {
+  ttl?: number;
+}
+
+export interface LunabyClientOptions extends TimeoutOptions {
   apiKey?: string;
   baseURL?: string;
   timeout?: number;
@@ -124,12 +477,46 @@ export interface LunabyClientOptions {
   defaultModel?: Model;
   defaultHeaders?: Record<string, string>;
   fetch?: FetchFunction;
+  middleware?: Middleware[];
+  retryPolicy?: RetryPolicy;
+  preflight?: PreflightMode;
+  /** Throw ContentFilterError when a completion ends with finish_reason "content_filter" */
+  throwOnContentFilter?: boolean;
+  /** Opt-in response cache for chat.create, chat.createStream, images.generate, embeddings.create and moderations.create */
+  cache?: boolean | CacheOptions;
+  /** Allow creating a client in a browser, where the API key is visible to users */
+  dangerouslyAllowBrowser?: boolean;
+  /** Opt-in client-side queue; pass a RequestScheduler instance to share it between clients */
+  scheduler?: SchedulerOptions | RequestScheduler;
+  /** Receives SDK warnings, such as a model lacking a requested capability (defaults to console.warn) */
+  onWarning?: (message: string) => void;
+}
+
+export type TimeoutPhase = 'connect' | 'idle' | 'total';
+
+export interface TimeoutOptions {
+  /** Per attempt, until the response headers arrive (defaults to `timeout`) */
+  connectTimeout?: number;
+  /** Longest gap between two chunks of the response body (defaults to `timeout`) */
+  idleTimeout?: number;
+  /** Whole request including retries, backoff and reading the body (no limit by default) */
+  totalTimeout?: number;
 }
 
-export interface RequestOptions {
+export interface RequestOptions extends TimeoutOptions {
+  /** Aborts the request; applied together with the SDK timeouts */
   signal?: AbortSignal | null;
   timeout?: number;
   headers?: Record<string, string>;
+  retryPolicy?: RetryPolicy;
+  /** Queue lane when a scheduler is configured (chat defaults to 'normal', images to 'low') */
+  priority?: RequestPriority;
+  /**
+   * Use the client cache for this request (true, or options to override the TTL) or bypass it (false).
+   * By default only deterministic requests are cached: chat at temperature 0, seeded image
+   * generations, embeddings and moderations.
+   */
+  cache?: boolean | RequestCacheOptions;
 }
 
 export interface LunabyErrorDetails {
@@ -151,17 +538,35 @@ export interface APIErrorResponse {
 }
 
 export interface StreamEvent {
-  event?: string;
+  /** Event type, "message" unless the server sent an `event:` field */
+  event: string;
+  /** Data lines of the event joined with "\n" */
   data: string;
+  /** Last event ID seen on the stream, kept across events until the server changes it */
+  id?: string;
+  /** Reconnection delay in milliseconds most recently sent with `retry:` */
+  retry?: number;
 }
 
 export interface StreamOptions extends RequestOptions {
   onChunk?: (chunk: ChatCompletionChunk) => void;
   onContent?: (content: string) => void;
+  onToolCallDelta?: (delta: ToolCallDelta, snapshot: ToolCall) => void;
+  onToolCall?: (toolCall: ToolCall) => void;
   onDone?: () => void;
   onError?: (error: Error) => void;
 }
 
+export interface StreamResumeOptions {
+  /** Reconnects allowed per stream (default 3) */
+  maxReconnects?: number;
+  /**
+   * Re-ask the model with the partial reply as an assistant prefix when the
+   * server cannot resume from `Last-Event-ID` (default true)
+   */
+  fallback?: boolean;
+}
+
 export type PartialBy<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 
 export type RequiredBy<T, K extends keyof T> = T & Required<Pick<T, K>>;
@@ -0,0 +1,111 @@
+import { ValidationError } from './errors.js';
+import { detectImageMimeType, imageMimeTypeFromPath } from './content.js';
+import { loadFs } from './runtime.js';
+
+/**
+ * File input for uploads: bytes, a Blob or File, a path on disk (Node only),
+ * a web ReadableStream or a Node readable stream
+ */
+export type Uploadable =
+  | Blob
+  | Uint8Array
+  | ArrayBuffer
+  | string
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+};
+
+/**
+ * Read an upload into a Blob with a file name. Streams are buffered so the
+ * request body can be sent again on retries.
+ */
+export async function toUploadBlob(
+  input: Uploadable,
+  field: string
+): Promise<{ blob: Blob; filename: string }> {
+  if (typeof input === 'string') {
+    const { readFile } = await loadFs();
+    const data = await readFile(input);
+    const name = input.slice(Math.max(input.lastIndexOf('/'), input.lastIndexOf('\\')) + 1);
+    const type = detectImageMimeType(data) || imageMimeTypeFromPath(input) || '';
+
+    return { blob: new Blob([data as BlobPart], { type }), filename: name || field };
+  }
+
+  if (input instanceof Blob) {
+    const name = (input as Blob & { name?: unknown }).name;
+    return {
+      blob: input,
+      filename: typeof name === 'string' && name ? name : `${field}${MIME_EXTENSIONS[input.type] || ''}`,
+    };
+  }
+
+  let data: Uint8Array;
+  if (input instanceof Uint8Array) {
+    data = input;
+  } else if (input instanceof ArrayBuffer) {
+    data = new Uint8Array(input);
+  } else if (input instanceof ReadableStream) {
+    data = new Uint8Array(await new Response(input).arrayBuffer());
+  } else if (input && typeof (input as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] === 'function') {
+    data = await collect(input);
+  } else {
+    throw new ValidationError(`${field} must be a Blob, Uint8Array, ArrayBuffer, file path or stream`, field);
+  }
+
+  const type = detectImageMimeType(data) || '';
+  return {
+    blob: new Blob([data as BlobPart], { type }),
+    filename: `${field}${MIME_EXTENSIONS[type] || ''}`,
+  };
+}
+
+async function collect(stream: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for await (const chunk of stream) {
+    // Node streams may yield strings when an encoding is set
+    const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.byteLength;
+  }
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * Build a multipart form from upload files and scalar fields; undefined fields are skipped
+ */
+export async function buildMultipartForm(
+  files: Record<string, Uploadable | undefined>,
+  fields: Record<string, string | number | boolean | undefined>
+): Promise<FormData> {
+  const form = new FormData();
+
+  for (const [name, input] of Object.entries(files)) {
+    if (input === undefined) continue;
+    const { blob, filename } = await toUploadBlob(input, name);
+    form.append(name, blob, filename);
+  }
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      form.append(name, String(value));
+    }
+  }
+
+  return form;
+}
@@ -1,11 +1,17 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-    entry: ['src/index.ts'],
+    entry: {
+        index: 'src/index.ts',
+        testing: 'src/testing/index.ts',
+        cli: 'src/cli.ts',
+    },
     format: ['cjs', 'esm'],
     dts: true,
     clean: true,
     splitting: false,
     sourcemap: true,
     cjsInterop: true,
+    // Keep `node:` specifiers so edge and browser bundlers recognize the lazy Node-only imports
+    removeNodeProtocol: false,
 });
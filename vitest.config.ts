@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        // The edge runtime test links the ESM build as a module inside the VM,
+        // which needs vm.SourceTextModule
+        poolMatchGlobs: [['**/edge-runtime.test.ts', 'forks']],
+        poolOptions: {
+            forks: {
+                execArgv: ['--experimental-vm-modules'],
+            },
+        },
+    },
+});